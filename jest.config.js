@@ -2,4 +2,8 @@ module.exports = {
   testMatch: ["**/*.test.ts"],
   preset: "ts-jest",
   testEnvironment: "node",
+  // Jest doesn't read package exports, so it would load the ES module build of node-emoji
+  moduleNameMapper: {
+    "^node-emoji$": "<rootDir>/node_modules/node-emoji/lib/index.cjs",
+  },
 };
@@ -0,0 +1,167 @@
+import { Command, flags } from '@oclif/command';
+import guardian from '../plugins/guardian';
+import { Credentials } from '../utils/auth';
+import { loadConfig } from '../utils/config';
+import GitHub from '../utils/github';
+import { defaultJournalPath } from '../utils/journal';
+import Logger, { LogLevel, logLevels } from '../utils/logger';
+import { Plan, readPlan } from '../utils/plan';
+import { loadPlugins } from '../utils/plugins';
+import Recording from '../utils/recording';
+import { formatReports, writeReports } from '../utils/report';
+import { resolveCredentials } from '../utils/token';
+
+class Apply extends Command {
+  static description =
+    'Execute a plan written by `m2m plan`, opening the issues in the plan. The migration is aborted if the repository has changed since the plan was made';
+
+  static usage = 'apply PLAN [TOKEN]';
+
+  static args = [
+    {
+      name: 'plan',
+      required: true,
+      description: 'The plan file written by `m2m plan`',
+    },
+    {
+      name: 'token',
+      required: false,
+      description:
+        'A personal access token to authenticate against the GitHub API. If omitted, the token is found in the same way as for the migration',
+    },
+  ];
+
+  static flags = {
+    help: flags.help({ char: 'h', hidden: true }),
+
+    force: flags.boolean({
+      default: false,
+      description: 'Disable any user prompts',
+    }),
+    verbose: flags.boolean({
+      default: false,
+      description: 'Output debug logs',
+    }),
+    'log-level': flags.enum({
+      options: logLevels,
+      description: 'Only output messages at this level or above. Defaults to debug with `--verbose` and info otherwise',
+    }),
+    'log-file': flags.string({
+      description: 'Write a debug log of every message and GitHub API request to this file, with tokens removed',
+    }),
+    journal: flags.string({
+      description: 'The file used to record the steps completed for each repository. Defaults to ~/.m2m-journal.json',
+    }),
+    output: flags.enum({
+      options: ['text', 'json'],
+      default: 'text',
+      description: 'The output format. With `json`, progress is written to stderr and a report to stdout',
+    }),
+    report: flags.string({
+      description: 'Write a JSON report of each step to this file',
+    }),
+    'app-id': flags.string({
+      description: 'Authenticate as the GitHub App with this ID instead of using an access token',
+      env: 'M2M_APP_ID',
+      dependsOn: ['private-key'],
+    }),
+    'private-key': flags.string({
+      description: 'The path to the private key file of the GitHub App',
+      env: 'M2M_APP_PRIVATE_KEY',
+      dependsOn: ['app-id'],
+    }),
+    'installation-id': flags.integer({
+      description: 'The ID of the GitHub App installation. Found from the owner of the repository if omitted',
+      dependsOn: ['app-id'],
+    }),
+    record: flags.string({
+      description: 'Record every request made to the GitHub API and its response in this directory',
+      exclusive: ['replay'],
+    }),
+    replay: flags.string({
+      description: 'Answer requests to the GitHub API from a directory written by `--record` instead of the network',
+      exclusive: ['record'],
+    }),
+  };
+
+  async run(): Promise<void> {
+    const config = loadConfig();
+    const { args, flags: parsed } = this.parse(Apply);
+
+    // Keep stdout free for the report when outputting JSON
+    const log =
+      parsed.output === 'json' ? (message: string): boolean => process.stderr.write(`${message}\n`) : this.log;
+    const logger = new Logger(parsed.verbose, log, this.warn, this.error, {
+      level: parsed['log-level'] as LogLevel | undefined,
+      interactive: !!process.stdout.isTTY,
+      logFile: parsed['log-file'],
+    });
+
+    let plan: Plan;
+    let credentials: Credentials;
+    let recording: Recording | undefined;
+    try {
+      plan = readPlan(args.plan);
+      if (parsed.record || parsed.replay) {
+        recording = parsed.record
+          ? new Recording(parsed.record, 'record')
+          : new Recording(parsed.replay ?? '', 'replay');
+      }
+
+      credentials = recording?.replaying
+        ? args.token ?? 'replay'
+        : await resolveCredentials(
+            {
+              token: args.token,
+              appId: parsed['app-id'],
+              privateKey: parsed['private-key'],
+              installationId: parsed['installation-id'],
+              owner: plan.repository.split('/')[0],
+              apiUrl: plan.apiUrl,
+              recording,
+            },
+            logger
+          );
+    } catch (err) {
+      return this.error(err.message);
+    }
+
+    const [owner, repo] = plan.repository.split('/');
+    // The plugins are those the plan was made with, rather than those configured where it is applied
+    const plugins = [
+      ...(plan.options.guardian ? [guardian] : []),
+      ...(await loadPlugins(plan.options.plugins, process.cwd())),
+    ];
+
+    logger.information(`Applying the plan to migrate ${plan.repository} from ${plan.from} to ${plan.to}`);
+
+    const gh = new GitHub(owner, repo, credentials, logger, {
+      ...plan.options,
+      from: plan.from,
+      to: plan.to,
+      force: parsed.force,
+      execute: true,
+      resume: false,
+      journal: parsed.journal ?? defaultJournalPath,
+      plugins,
+      issueTemplates: config.issues ?? {},
+      apiUrl: plan.apiUrl,
+      applyPlan: plan,
+      recording,
+      output: parsed.output,
+    });
+
+    try {
+      await gh.run();
+    } finally {
+      if (parsed.output === 'json') {
+        this.log(formatReports([gh.report]));
+      }
+      if (parsed.report) {
+        writeReports(parsed.report, [gh.report]);
+      }
+    }
+  }
+}
+
+export default Apply;
@@ -0,0 +1,74 @@
+import { Command, flags } from '@oclif/command';
+import { applyDefaults, loadConfig } from '../utils/config';
+import LocalRepository from '../utils/local';
+import Logger, { LogLevel, logLevels } from '../utils/logger';
+
+class Local extends Command {
+  static description = 'Update a local copy of a repository after its branch has been renamed on GitHub';
+
+  static usage = 'local [REPOSITORY]';
+
+  static args = [
+    {
+      name: 'repository',
+      required: false,
+      description:
+        'The repository in the form `owner/repo`, used to find its remote. If omitted, the only remote or `origin` is used',
+    },
+  ];
+
+  static flags = {
+    help: flags.help({ char: 'h', hidden: true }),
+
+    execute: flags.boolean({
+      char: 'x',
+      default: false,
+      description: 'Update the local copy',
+    }),
+    verbose: flags.boolean({
+      default: false,
+      description: 'Output debug logs',
+    }),
+    'log-level': flags.enum({
+      options: logLevels,
+      description: 'Only output messages at this level or above. Defaults to debug with `--verbose` and info otherwise',
+    }),
+    'log-file': flags.string({
+      description: 'Write a debug log of every message and git command to this file, with tokens removed',
+    }),
+    remote: flags.string({
+      description: 'The name of the remote for the repository',
+    }),
+    from: flags.string({
+      char: 'f',
+      description: 'The current name of the branch',
+      required: false,
+      default: 'master',
+    }),
+    to: flags.string({
+      char: 't',
+      description: 'The new name of the branch',
+      required: false,
+      default: 'main',
+    }),
+  };
+
+  async run(): Promise<void> {
+    // Only the branch names are shared with the migration defaults in the config file
+    const { from, to } = loadConfig().defaults ?? {};
+    const { args, flags: parsed } = this.parse({
+      ...Local,
+      flags: applyDefaults(Local.flags, { ...(from ? { from } : {}), ...(to ? { to } : {}) }),
+    });
+
+    const logger = new Logger(parsed.verbose, this.log, this.warn, this.error, {
+      level: parsed['log-level'] as LogLevel | undefined,
+      interactive: !!process.stdout.isTTY,
+      logFile: parsed['log-file'],
+    });
+
+    await new LocalRepository(process.cwd(), logger, { ...parsed, repository: args.repository }).run();
+  }
+}
+
+export default Local;
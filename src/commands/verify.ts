@@ -0,0 +1,158 @@
+import { Command, flags } from '@oclif/command';
+import { Credentials } from '../utils/auth';
+import { applyDefaults, loadConfig } from '../utils/config';
+import { defaultJournalPath } from '../utils/journal';
+import Logger, { LogLevel, logLevels } from '../utils/logger';
+import { defaultApiUrl } from '../utils/octokit';
+import Recording from '../utils/recording';
+import { resolveCredentials } from '../utils/token';
+import Verification from '../utils/verify';
+
+class Verify extends Command {
+  static description =
+    'Check that a migration has landed, exiting with an error if the default branch, pull requests, branch protection, commit status or follow-up issues need attention';
+
+  static usage = 'verify REPOSITORY [TOKEN]';
+
+  static args = [
+    {
+      name: 'repository',
+      required: true,
+      description: 'The name of the repository to check in the form `owner/repo`',
+    },
+    {
+      name: 'token',
+      required: false,
+      description:
+        'A personal access token to authenticate against the GitHub API. If omitted, the token is found in the same way as for the migration',
+    },
+  ];
+
+  static flags = {
+    help: flags.help({ char: 'h', hidden: true }),
+
+    verbose: flags.boolean({
+      default: false,
+      description: 'Output debug logs',
+    }),
+    'log-level': flags.enum({
+      options: logLevels,
+      description: 'Only output messages at this level or above. Defaults to debug with `--verbose` and info otherwise',
+    }),
+    'log-file': flags.string({
+      description: 'Write a debug log of every message and GitHub API request to this file, with tokens removed',
+    }),
+    journal: flags.string({
+      description:
+        'The journal of the migration, used to compare the protection of the new branch with the old branch. Defaults to ~/.m2m-journal.json',
+    }),
+    'api-url': flags.string({
+      description: 'The URL of the GitHub API, such as https://github.example.com/api/v3 for GitHub Enterprise Server',
+      env: 'GITHUB_API_URL',
+      default: defaultApiUrl,
+    }),
+    'app-id': flags.string({
+      description: 'Authenticate as the GitHub App with this ID instead of using an access token',
+      env: 'M2M_APP_ID',
+      dependsOn: ['private-key'],
+    }),
+    'private-key': flags.string({
+      description: 'The path to the private key file of the GitHub App',
+      env: 'M2M_APP_PRIVATE_KEY',
+      dependsOn: ['app-id'],
+    }),
+    'installation-id': flags.integer({
+      description: 'The ID of the GitHub App installation. Found from the owner of the repository if omitted',
+      dependsOn: ['app-id'],
+    }),
+    record: flags.string({
+      description: 'Record every request made to the GitHub API and its response in this directory',
+      exclusive: ['replay'],
+    }),
+    replay: flags.string({
+      description: 'Answer requests to the GitHub API from a directory written by `--record` instead of the network',
+      exclusive: ['record'],
+    }),
+    from: flags.string({
+      char: 'f',
+      description: 'The old name of the branch',
+      required: false,
+      default: 'master',
+    }),
+    to: flags.string({
+      char: 't',
+      description: 'The new name of the branch',
+      required: false,
+      default: 'main',
+    }),
+  };
+
+  async run(): Promise<void> {
+    // Only the branch names are shared with the migration defaults in the config file
+    const { from, to } = loadConfig().defaults ?? {};
+    const { args, flags: parsed } = this.parse({
+      ...Verify,
+      flags: applyDefaults(Verify.flags, { ...(from ? { from } : {}), ...(to ? { to } : {}) }),
+    });
+
+    const [owner, repo] = args.repository.split('/');
+    if (!repo) {
+      return this.error('The repository argument must be in the form `owner/repo`');
+    }
+
+    const logger = new Logger(parsed.verbose, this.log, this.warn, this.error, {
+      level: parsed['log-level'] as LogLevel | undefined,
+      interactive: !!process.stdout.isTTY,
+      logFile: parsed['log-file'],
+    });
+
+    let credentials: Credentials;
+    let recording: Recording | undefined;
+    try {
+      if (parsed.record || parsed.replay) {
+        recording = parsed.record
+          ? new Recording(parsed.record, 'record')
+          : new Recording(parsed.replay ?? '', 'replay');
+      }
+
+      credentials = recording?.replaying
+        ? args.token ?? 'replay'
+        : await resolveCredentials(
+            {
+              token: args.token,
+              appId: parsed['app-id'],
+              privateKey: parsed['private-key'],
+              installationId: parsed['installation-id'],
+              owner,
+              apiUrl: parsed['api-url'],
+              recording,
+            },
+            logger
+          );
+    } catch (err) {
+      return this.error(err.message);
+    }
+
+    // Verifying makes no changes, so the options that control changes are all off
+    await new Verification(owner, repo, credentials, logger, {
+      from: parsed.from,
+      to: parsed.to,
+      force: true,
+      execute: false,
+      issues: false,
+      fixReferences: false,
+      prComments: false,
+      scanTree: false,
+      trackingIssue: false,
+      projectStatus: 'Todo',
+      resume: false,
+      journal: parsed.journal ?? defaultJournalPath,
+      plugins: [],
+      issueTemplates: {},
+      apiUrl: parsed['api-url'],
+      recording,
+    }).run();
+  }
+}
+
+export default Verify;
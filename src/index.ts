@@ -1,20 +1,68 @@
 import { Command, flags } from '@oclif/command';
+import * as Config from '@oclif/config';
+import Apply from './commands/apply';
+import Local from './commands/local';
+import Verify from './commands/verify';
+import guardian from './plugins/guardian';
+import { Credentials } from './utils/auth';
+import Batch from './utils/batch';
+import { applyDefaults, loadConfig } from './utils/config';
 import GitHub from './utils/github';
-import Logger from './utils/logger';
+import { defaultJournalPath } from './utils/journal';
+import Logger, { LogLevel, logLevels } from './utils/logger';
+import { BranchMapping, readMappings } from './utils/mappings';
+import { defaultApiUrl } from './utils/octokit';
+import { loadPlugin, loadPlugins, resolvePluginEntry } from './utils/plugins';
+import { defaultPlanPath } from './utils/plan';
+import { parseProject } from './utils/projects';
+import { resolveCredentials } from './utils/token';
+import Report, { formatReports, writeReports } from './utils/report';
+import Recording from './utils/recording';
+import Rollback from './utils/rollback';
+
+// Other commands are run as `m2m <command>`, as the migration itself takes the repository as its first argument
+const commands: Record<string, typeof Command> = {
+  apply: Apply,
+  local: Local,
+  verify: Verify,
+};
 
 class MasterToMain extends Command {
-  static description = 'Rename a GitHub repository branch';
+  static description = `Rename a GitHub repository branch
+
+Other commands:
+  m2m plan REPOSITORY     Write a plan of the migration to review, using the same options as the migration
+  m2m apply PLAN          Execute a plan, aborting if the repository has changed since it was made
+  m2m local [REPOSITORY]  Update a local copy of a repository after its branch has been renamed
+  m2m verify REPOSITORY   Check that a migration has landed, exiting with an error if anything needs attention`;
+
+  static run: Config.Command.Class['run'] = (argv = process.argv.slice(2), opts) => {
+    // Planning is a dry run of the migration that writes the plan to a file
+    if (argv[0] === 'plan') {
+      const args = argv.slice(1);
+      return Command.run.call(
+        MasterToMain,
+        args.includes('--plan') ? args : [...args, '--plan', defaultPlanPath],
+        opts
+      );
+    }
+
+    const command = commands[argv[0]];
+    return command ? command.run(argv.slice(1), opts) : Command.run.call(MasterToMain, argv, opts);
+  };
 
   static args = [
     {
       name: 'repository',
       required: true,
-      description: 'The name of the repository to update in the form `owner/repo`',
+      description:
+        'The name of the repository to update in the form `owner/repo`, or the name of an organisation when using `--org`',
     },
     {
       name: 'token',
-      required: true,
-      description: 'A personal access token to authenticate against the GitHub API',
+      required: false,
+      description:
+        'A personal access token to authenticate against the GitHub API. If omitted, the token is read from the GITHUB_TOKEN or GH_TOKEN environment variables, the gh CLI config or git credential helpers',
     },
   ];
 
@@ -35,17 +83,135 @@ class MasterToMain extends Command {
       default: false,
       description: 'Output debug logs',
     }),
+    'log-level': flags.enum({
+      options: logLevels,
+      description: 'Only output messages at this level or above. Defaults to debug with `--verbose` and info otherwise',
+    }),
+    'log-file': flags.string({
+      description: 'Write a debug log of every message and GitHub API request to this file, with tokens removed',
+    }),
     guardian: flags.boolean({
       default: true,
       description: 'Controls whether guardian specific steps are run. Use `--no-guardian` to disable',
       allowNo: true,
     }),
+    plugin: flags.string({
+      description: 'Load an extra plugin from an npm package or a local file. Can be passed more than once',
+      multiple: true,
+    }),
     issues: flags.boolean({
       default: true,
       description: 'Controls whether issues are created for further changes. Use `--no-issues` to disable',
       allowNo: true,
     }),
 
+    'fix-references': flags.boolean({
+      default: false,
+      description:
+        'Open a pull request updating well known references to the old branch, such as workflow triggers and badges',
+    }),
+    'scan-tree': flags.boolean({
+      default: false,
+      description: 'Scan the files in the repository for references instead of using code search',
+    }),
+    'pr-comments': flags.boolean({
+      default: false,
+      description: 'Comment on each open pull request to the old branch to explain that its base branch has changed',
+    }),
+    assignee: flags.string({
+      description: 'Assign the issues opened by the migration to this user, or to yourself with `@me`',
+    }),
+    'assign-team': flags.string({
+      description: 'Assign the issues opened by the migration to the members of the team with this slug',
+    }),
+    'tracking-issue': flags.boolean({
+      default: false,
+      description: 'Open a single issue listing all of the follow-up work instead of an issue for each change',
+    }),
+    project: flags.string({
+      description:
+        'Add the issues to this GitHub Project, given as its number, owner/number or URL. Projects belong to the repository owner by default',
+    }),
+    'project-status': flags.string({
+      description: 'The status given to issues added to the project',
+      default: 'Todo',
+    }),
+    plan: flags.string({
+      description: 'Write a plan of the migration to this file instead of running it, to execute with `m2m apply`',
+      exclusive: ['execute', 'org', 'rollback', 'resume', 'branches'],
+    }),
+    rollback: flags.boolean({
+      default: false,
+      description: 'Rename the `--to` branch back to `--from` and close the issues opened by a previous migration',
+      exclusive: ['org', 'resume'],
+    }),
+    resume: flags.boolean({
+      default: false,
+      description: 'Resume a previous migration, skipping the steps recorded as completed in the journal',
+    }),
+    journal: flags.string({
+      description: 'The file used to record the steps completed for each repository. Defaults to ~/.m2m-journal.json',
+    }),
+
+    org: flags.boolean({
+      default: false,
+      description:
+        'Treat the repository argument as an organisation and migrate every repository whose default branch is `--from`',
+    }),
+    topic: flags.string({
+      description: 'Only migrate organisation repositories with this topic',
+      dependsOn: ['org'],
+    }),
+    team: flags.string({
+      description: 'Only migrate organisation repositories belonging to the team with this slug',
+      dependsOn: ['org'],
+    }),
+    list: flags.string({
+      description: 'Only migrate organisation repositories named in this file, one per line',
+      dependsOn: ['org'],
+    }),
+    concurrency: flags.integer({
+      default: 4,
+      description: 'The number of organisation repositories to migrate at once',
+    }),
+
+    'api-url': flags.string({
+      description: 'The URL of the GitHub API, such as https://github.example.com/api/v3 for GitHub Enterprise Server',
+      env: 'GITHUB_API_URL',
+      default: defaultApiUrl,
+    }),
+    'app-id': flags.string({
+      description: 'Authenticate as the GitHub App with this ID instead of using an access token',
+      env: 'M2M_APP_ID',
+      dependsOn: ['private-key'],
+    }),
+    'private-key': flags.string({
+      description: 'The path to the private key file of the GitHub App',
+      env: 'M2M_APP_PRIVATE_KEY',
+      dependsOn: ['app-id'],
+    }),
+    'installation-id': flags.integer({
+      description: 'The ID of the GitHub App installation. Found from the owner of the repository if omitted',
+      dependsOn: ['app-id'],
+    }),
+
+    output: flags.enum({
+      options: ['text', 'json'],
+      default: 'text',
+      description: 'The output format. With `json`, progress is written to stderr and a report to stdout',
+    }),
+    report: flags.string({
+      description: 'Write a JSON report of each step to this file',
+    }),
+    record: flags.string({
+      description: 'Record every request made to the GitHub API and its response in this directory',
+      exclusive: ['replay'],
+    }),
+    replay: flags.string({
+      description: 'Answer requests to the GitHub API from a directory written by `--record` instead of the network',
+      exclusive: ['record'],
+    }),
+
     from: flags.string({
       char: 'f',
       description: 'The current name of the branch',
@@ -58,22 +224,154 @@ class MasterToMain extends Command {
       required: false,
       default: 'main',
     }),
+    branches: flags.string({
+      description:
+        'Rename several branches, given as a list of mappings such as `master:main,develop:dev` or a file with one mapping per line. Overrides `--from` and `--to`',
+    }),
   };
 
   async run(): Promise<void> {
-    const { args, flags } = this.parse(MasterToMain);
+    const config = loadConfig();
+    const { args, flags: parsed } = this.parse({
+      ...MasterToMain,
+      flags: applyDefaults(MasterToMain.flags, config.defaults ?? {}),
+    });
+
+    const plugins = [
+      ...(parsed.guardian ? [guardian] : []),
+      ...(await loadPlugins(config.plugins ?? [], process.cwd())),
+      ...(await Promise.all((parsed.plugin ?? []).map((specifier) => loadPlugin(specifier, undefined, process.cwd())))),
+    ];
+
+    let mappings: BranchMapping[];
+    try {
+      mappings = parsed.branches ? readMappings(parsed.branches) : [{ from: parsed.from, to: parsed.to }];
+    } catch (err) {
+      return this.error(err.message);
+    }
+
+    const planOptions = {
+      issues: parsed.issues,
+      fixReferences: parsed['fix-references'],
+      prComments: parsed['pr-comments'],
+      scanTree: parsed['scan-tree'],
+      assignee: parsed.assignee,
+      assignTeam: parsed['assign-team'],
+      trackingIssue: parsed['tracking-issue'],
+      project: parsed.project,
+      projectStatus: parsed['project-status'],
+      guardian: parsed.guardian,
+      // Local plugins are resolved now, so the plan can be applied from another directory
+      plugins: [...(config.plugins ?? []), ...(parsed.plugin ?? [])].map((entry) =>
+        resolvePluginEntry(entry, process.cwd())
+      ),
+    };
+
+    const flags = {
+      ...parsed,
+      mappings,
+      planFile: parsed.plan,
+      planOptions,
+      journal: parsed.journal ?? defaultJournalPath,
+      fixReferences: parsed['fix-references'],
+      prComments: parsed['pr-comments'],
+      scanTree: parsed['scan-tree'],
+      assignTeam: parsed['assign-team'],
+      trackingIssue: parsed['tracking-issue'],
+      projectStatus: parsed['project-status'],
+      plugins,
+      issueTemplates: config.issues ?? {},
+      apiUrl: parsed['api-url'],
+    };
+
+    if (flags.org && args.repository.includes('/')) {
+      return this.error('The repository argument must be the name of an organisation when using `--org`');
+    }
 
     const [owner, repo] = args.repository.split('/');
 
-    if (!repo) {
+    if (!flags.org && !repo) {
       return this.error('The repository argument must be in the form `owner/repo`');
     }
 
-    const logger = new Logger(flags.verbose, this.log, this.warn, this.error);
+    if (flags.project) {
+      try {
+        parseProject(flags.project, owner);
+      } catch (err) {
+        return this.error(err.message);
+      }
+    }
+
+    // Keep stdout free for the report when outputting JSON
+    const log = flags.output === 'json' ? (message: string): boolean => process.stderr.write(`${message}\n`) : this.log;
+    const logger = new Logger(flags.verbose, log, this.warn, this.error, {
+      level: flags['log-level'] as LogLevel | undefined,
+      interactive: !!process.stdout.isTTY,
+      logFile: flags['log-file'],
+    });
 
-    const gh = new GitHub(owner, repo, args.token, logger, flags);
+    let credentials: Credentials;
+    let recording: Recording | undefined;
+    try {
+      if (flags.record || flags.replay) {
+        recording = flags.record ? new Recording(flags.record, 'record') : new Recording(flags.replay ?? '', 'replay');
+      }
 
-    await gh.run();
+      // A replay makes no requests, so it doesn't need a token
+      credentials = recording?.replaying
+        ? args.token ?? 'replay'
+        : await resolveCredentials(
+            {
+              token: args.token,
+              appId: flags['app-id'],
+              privateKey: flags['private-key'],
+              installationId: flags['installation-id'],
+              owner,
+              apiUrl: flags['api-url'],
+              recording,
+            },
+            logger
+          );
+    } catch (err) {
+      return this.error(err.message);
+    }
+
+    const reports: Report[] = [];
+
+    try {
+      if (flags.org) {
+        const batch = new Batch(owner, credentials, logger, { ...flags, recording });
+        const results = await batch.run();
+        reports.push(...results.reduce((all: Report[], result) => all.concat(result.reports), []));
+
+        const failures = results.filter((result) => !result.success).length;
+        if (failures) {
+          return this.error(`${failures} of ${results.length} repositories could not be migrated`);
+        }
+        return;
+      }
+
+      for (const { from, to } of mappings) {
+        if (mappings.length > 1) {
+          logger.information(`${flags.rollback ? 'Rolling back' : 'Renaming'} ${from} to ${to}`, true);
+        }
+
+        const branchFlags = { ...flags, from, to, recording };
+        const gh = flags.rollback
+          ? new Rollback(owner, repo, credentials, logger, branchFlags)
+          : new GitHub(owner, repo, credentials, logger, branchFlags);
+
+        reports.push(gh.report);
+        await gh.run();
+      }
+    } finally {
+      if (flags.output === 'json') {
+        this.log(formatReports(reports));
+      }
+      if (flags.report) {
+        writeReports(flags.report, reports);
+      }
+    }
   }
 }
 
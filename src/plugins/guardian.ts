@@ -0,0 +1,69 @@
+import { Plugin, PluginContext } from '../utils/plugins';
+import { formatMatches } from '../utils/search';
+
+/* Guardian specific steps, covering Riff Raff deployments and the CI and analysis tooling used at the Guardian */
+
+// Names both branches, so the issues for other branches renamed in the same repository are kept apart
+const riffRaffIssueTitle = (context: PluginContext): string =>
+  `Update Riff Raff configuration after renaming ${context.oldBranchName} to ${context.newBranchName}`;
+
+const checkRiffRaffFile = async (context: PluginContext): Promise<void> => {
+  const msg = `Checking to see if a riff-raff.yaml file exists`;
+
+  const spinner = context.logger.spin(msg);
+  try {
+    const files = await context.findFiles({ filename: 'riff-raff.yaml' });
+    context.report.detail('riffRaffFiles', files.length);
+
+    if (!files.length) {
+      context.logger.log('No riff-raff.yaml file found');
+      spinner.succeed();
+      return;
+    }
+
+    if (!context.issues) {
+      context.logger.log(`${files.length} riff-raff.yaml file(s) found.`);
+      spinner.succeed();
+      return;
+    }
+
+    context.logger.log(`${files.length} riff-raff.yaml file(s) found. Opening an issue.`);
+
+    const list = formatMatches(files, context.blobUrl);
+
+    await context.openIssue(
+      'riffRaff',
+      riffRaffIssueTitle(context),
+      `The ${context.oldBranchName} branch of this repository has been migrated to ${context.newBranchName} using the [master-to-main](https://github.com/guardian/master-to-main) tool.
+
+  The following \`riff-raff.yaml\` file(s) have been found in the repostiory:
+
+  ${list}
+
+For each deployment, you will need to complete the following steps:
+
+1. Fix continuous deployments: https://riffraff.gutools.co.uk/deployment/continuous
+1. Ensure blocked deployments are still blocked: https://riffraff.gutools.co.uk/deployment/restrictions
+          `,
+      { files: list }
+    );
+
+    spinner.succeed();
+  } catch (err) {
+    spinner.fail();
+    throw err;
+  }
+};
+
+const guardian: Plugin = {
+  name: 'guardian',
+  postRenameChecks: [{ name: 'checkRiffRaffFile', run: checkRiffRaffFile }],
+  issueItems: () => [
+    'TeamCity - See the required steps in the [migrating.md](https://github.com/guardian/master-to-main/blob/main/migrating.md#update-ci-typically-teamcity) document',
+    'Change snyk github integration(s) - it uses the default branch, but you will need to delete and reimport the project+file as this is the only way to refresh the default branch at present.',
+    'Any other externally configured analysis tooling your team is using e.g. travis CI',
+  ],
+  issueTitles: (context) => ({ riffRaff: riffRaffIssueTitle(context) }),
+};
+
+export default guardian;
@@ -0,0 +1,104 @@
+import { createAppAuth, InstallationAccessTokenAuthentication } from '@octokit/auth-app';
+import { request } from '@octokit/request';
+import { Octokit } from '@octokit/rest';
+import { EndpointDefaults, OctokitResponse } from '@octokit/types';
+import fs from 'fs';
+import Recording from './recording';
+
+export type AppAuth = ReturnType<typeof createAppAuth>;
+
+/* Either a personal access token, or the authentication for a GitHub App installation */
+
+export type Credentials = string | AppAuth;
+
+export const isAppAuth = (credentials: Credentials): credentials is AppAuth => typeof credentials !== 'string';
+
+/* Send the requests made to authenticate through the recording, as with every other request to the API */
+
+const recordedRequest = (apiUrl: string, recording?: Recording): typeof request =>
+  request.defaults({
+    baseUrl: apiUrl,
+    ...(recording && {
+      request: {
+        hook: (send: typeof request, options: EndpointDefaults & { url: string }): Promise<OctokitResponse<unknown>> =>
+          recording.send(request.endpoint.parse(options), async () => send(options)),
+      },
+    }),
+  });
+
+/* Find the installation of the app on an organisation or user account */
+
+const findInstallation = async (
+  appId: string,
+  privateKey: string,
+  owner: string,
+  apiUrl: string,
+  recording?: Recording
+): Promise<number> => {
+  const octokit = new Octokit({ baseUrl: apiUrl, authStrategy: createAppAuth, auth: { appId, privateKey } });
+  if (recording) {
+    octokit.hook.wrap('request', async (send, options) =>
+      recording.send(octokit.request.endpoint.parse(options), async () => send(options))
+    );
+  }
+
+  try {
+    const installation = await octokit.apps.getOrgInstallation({ org: owner });
+    return installation.data.id;
+  } catch (err) {
+    if (err.status !== 404) throw err;
+  }
+
+  try {
+    const installation = await octokit.apps.getUserInstallation({ username: owner });
+    return installation.data.id;
+  } catch (err) {
+    if (err.status === 404) {
+      throw new Error(`The GitHub App ${appId} is not installed on ${owner}`);
+    }
+    throw err;
+  }
+};
+
+/*
+ * Create the authentication for a GitHub App installation. The same authentication is shared by every client, so
+ * installation tokens are cached between repositories and minted again automatically when they expire.
+ */
+export const createInstallationAuth = async (
+  appId: string,
+  privateKeyFile: string,
+  owner: string,
+  apiUrl: string,
+  installationId?: number,
+  recording?: Recording
+): Promise<AppAuth> => {
+  let privateKey: string;
+  try {
+    privateKey = fs.readFileSync(privateKeyFile, 'utf8');
+  } catch (err) {
+    throw new Error(`Unable to read the private key at ${privateKeyFile} - ${err.message}`);
+  }
+
+  return createAppAuth({
+    appId,
+    privateKey,
+    installationId: installationId ?? (await findInstallation(appId, privateKey, owner, apiUrl, recording)),
+    request: recordedRequest(apiUrl, recording),
+  });
+};
+
+/* The permissions granted to the installation, which are returned along with each installation token */
+
+export const getInstallationPermissions = async (auth: AppAuth): Promise<Record<string, string>> => {
+  const authentication = (await auth({ type: 'installation' })) as InstallationAccessTokenAuthentication;
+  return authentication.permissions;
+};
+
+/* A token for the credentials, for use outside the API such as with git */
+
+export const getToken = async (credentials: Credentials): Promise<string> => {
+  if (!isAppAuth(credentials)) return credentials;
+
+  const authentication = (await credentials({ type: 'installation' })) as InstallationAccessTokenAuthentication;
+  return authentication.token;
+};
@@ -0,0 +1,131 @@
+import { AppAuth, createInstallationAuth, getInstallationPermissions, getToken } from './auth';
+import GitHub from './github';
+import { Interaction } from './recording';
+import { collectingLogger, interaction, notFound, replayFlags } from './replay.test-helper';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/* Authenticates offline as a GitHub App installed on guardian, replaying the responses GitHub gives */
+describe('The authentication helpers', () => {
+  let dir: string;
+  let keyFile: string;
+  let messages: string[];
+
+  // The app signs its requests for installations and tokens, so it needs a real key
+  const { privateKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+  });
+
+  const installationToken = (permissions: Record<string, string>): Interaction =>
+    interaction('POST', '/app/installations/42/access_tokens', 201, {
+      token: 'ghs_installation',
+      expires_at: '2099-01-01T00:00:00Z',
+      permissions,
+      repository_selection: 'all',
+    });
+
+  const installationAuth = (interactions: Interaction[]): Promise<AppAuth> =>
+    createInstallationAuth(
+      '1',
+      keyFile,
+      'guardian',
+      'https://api.github.com',
+      undefined,
+      replayFlags(dir, interactions).recording
+    );
+
+  const checkAdmin = (credentials: string | AppAuth, interactions: Interaction[]): Promise<void> => {
+    const flags = replayFlags(path.join(dir, 'migration'), interactions, { issues: true });
+    return new GitHub('guardian', 'test', credentials, collectingLogger(messages), flags).checkAdmin();
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-auth-'));
+    keyFile = path.join(dir, 'app.pem');
+    fs.writeFileSync(keyFile, privateKey);
+    messages = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('finds the installation of the app on an organisation and uses its token', async () => {
+    const auth = await installationAuth([
+      interaction('GET', '/orgs/guardian/installation', 200, { id: 42 }),
+      installationToken({ administration: 'write', contents: 'write' }),
+    ]);
+
+    // The recording never stores tokens, so the one it replays is redacted
+    expect(await getToken(auth)).toBe('[REDACTED]');
+    expect(await getInstallationPermissions(auth)).toEqual({ administration: 'write', contents: 'write' });
+  });
+
+  test('finds the installation of the app on a user account', async () => {
+    const auth = await installationAuth([
+      interaction('GET', '/orgs/guardian/installation', 404, notFound),
+      interaction('GET', '/users/guardian/installation', 200, { id: 42 }),
+      installationToken({ contents: 'read' }),
+    ]);
+
+    expect(await getToken(auth)).toBe('[REDACTED]');
+  });
+
+  test('throws an error if the app is not installed on the owner', async () => {
+    await expect(
+      installationAuth([
+        interaction('GET', '/orgs/guardian/installation', 404, notFound),
+        interaction('GET', '/users/guardian/installation', 404, notFound),
+      ])
+    ).rejects.toThrow('The GitHub App 1 is not installed on guardian');
+  });
+
+  test('throws an error if the private key cannot be read', async () => {
+    await expect(
+      createInstallationAuth('1', path.join(dir, 'missing.pem'), 'guardian', 'https://api.github.com', 42)
+    ).rejects.toThrow(`Unable to read the private key at ${path.join(dir, 'missing.pem')}`);
+  });
+
+  test('passes a token whose user is an admin of the repository', async () => {
+    await checkAdmin('token', [
+      interaction('GET', '/user', 200, { login: 'octocat' }),
+      interaction('GET', '/repos/guardian/test/collaborators/octocat/permission', 200, { permission: 'admin' }),
+    ]);
+  });
+
+  test('rejects a token whose user is not an admin of the repository', async () => {
+    await expect(
+      checkAdmin('token', [
+        interaction('GET', '/user', 200, { login: 'octocat' }),
+        interaction('GET', '/repos/guardian/test/collaborators/octocat/permission', 200, { permission: 'write' }),
+      ])
+    ).rejects.toThrow(
+      'You must be a repo admin to complete this migration, but octocat has write permission on guardian/test'
+    );
+  });
+
+  test('passes an app installation with write access to the repository', async () => {
+    const auth = await installationAuth([
+      interaction('GET', '/orgs/guardian/installation', 200, { id: 42 }),
+      installationToken({ administration: 'write', contents: 'write', issues: 'write' }),
+    ]);
+
+    await checkAdmin(auth, []);
+    expect(messages).toContain('Getting the permissions granted to the app installation');
+  });
+
+  test('rejects an app installation without write access to administration', async () => {
+    const auth = await installationAuth([
+      interaction('GET', '/orgs/guardian/installation', 200, { id: 42 }),
+      installationToken({ administration: 'read', contents: 'write', issues: 'write' }),
+    ]);
+
+    await expect(checkAdmin(auth, [])).rejects.toThrow(
+      'The GitHub App installation must have write access to administration to complete this migration'
+    );
+  });
+});
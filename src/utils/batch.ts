@@ -0,0 +1,269 @@
+import { Octokit } from '@octokit/rest';
+import chalk from 'chalk';
+import { Credentials } from './auth';
+import fs from 'fs';
+import logSymbols from 'log-symbols';
+import prompts from 'prompts';
+import { IssueTemplate } from './config';
+import GitHub from './github';
+import Logger from './logger';
+import { BranchMapping } from './mappings';
+import { Plugin } from './plugins';
+import createOctokit from './octokit';
+import Recording from './recording';
+import Report from './report';
+
+interface BatchFlags {
+  from: string;
+  to: string;
+  mappings?: BranchMapping[];
+  force: boolean;
+  execute: boolean;
+  issues: boolean;
+  fixReferences: boolean;
+  prComments: boolean;
+  scanTree: boolean;
+  assignee?: string;
+  assignTeam?: string;
+  trackingIssue: boolean;
+  project?: string;
+  projectStatus: string;
+  resume: boolean;
+  journal: string;
+  plugins: Plugin[];
+  issueTemplates: Record<string, IssueTemplate>;
+  apiUrl: string;
+  recording?: Recording;
+  output?: string;
+  concurrency: number;
+  topic?: string;
+  team?: string;
+  list?: string;
+}
+
+export interface BatchResult {
+  repository: string;
+  success: boolean;
+  error?: string;
+  // A report for each branch renamed
+  reports: Report[];
+}
+
+class Batch {
+  org: string;
+  credentials: Credentials;
+
+  flags: BatchFlags;
+
+  octokit: Octokit;
+  logger: Logger;
+
+  constructor(org: string, credentials: Credentials, logger: Logger, flags: BatchFlags) {
+    this.org = org;
+    this.credentials = credentials;
+    this.logger = logger;
+    this.flags = flags;
+
+    this.octokit = createOctokit(credentials, logger, flags.apiUrl, flags.recording);
+  }
+
+  get mappings(): BranchMapping[] {
+    return this.flags.mappings ?? [{ from: this.flags.from, to: this.flags.to }];
+  }
+
+  get sources(): string {
+    return this.mappings.map((mapping) => mapping.from).join(' or ');
+  }
+
+  async run(): Promise<BatchResult[]> {
+    if (!this.flags.execute) {
+      this.logger.information(
+        chalk.bgBlue.white(
+          `Running in dry-run mode. No changes will be made - steps that produce changes will be printed ${chalk.underline(
+            'only'
+          )} for information\n`
+        )
+      );
+    }
+
+    const repositories = await this.findRepositories();
+
+    if (!repositories.length) {
+      this.logger.information(`No repositories in ${this.org} have ${this.sources} as their default branch`);
+      return [];
+    }
+
+    await this.checkWithUser(repositories);
+
+    const results = await this.migrateAll(repositories);
+
+    this.summarise(results);
+
+    return results;
+  }
+
+  /* Steps */
+
+  async findRepositories(): Promise<string[]> {
+    const msg = `Finding repositories in ${this.org} with ${this.sources} as their default branch`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const repos = this.flags.team
+        ? await this.octokit.paginate('GET /orgs/{org}/teams/{team_slug}/repos', {
+            org: this.org,
+            team_slug: this.flags.team,
+            per_page: 100,
+          })
+        : await this.octokit.paginate('GET /orgs/{org}/repos', {
+            org: this.org,
+            type: 'all',
+            per_page: 100,
+          });
+
+      const listed = this.flags.list ? this.readList(this.flags.list) : undefined;
+      const topic = this.flags.topic;
+
+      const names = repos
+        .filter((repo) => !repo.archived && this.mappings.some((mapping) => mapping.from === repo.default_branch))
+        .filter((repo) => !topic || (repo.topics ?? []).includes(topic))
+        .filter((repo) => !listed || listed.includes(repo.name.toLowerCase()))
+        .map((repo) => repo.name)
+        .sort();
+
+      this.logger.log(`${names.length} ${names.length === 1 ? 'repository' : 'repositories'} found`);
+      spinner.succeed();
+
+      return names;
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async checkWithUser(repositories: string[]): Promise<void> {
+    const verb = this.flags.execute ? 'will' : 'would';
+    const branches = this.mappings.map((mapping) => `the ${mapping.from} branch to ${mapping.to}`).join(', ');
+    const prompt = `This script ${verb} now update ${branches} on the following ${
+      repositories.length
+    } repositories:\n${repositories.map((repo) => `  - ${this.org}/${repo}`).join('\n')}\n`;
+
+    if (this.flags.force) {
+      this.logger.log(chalk.bold(prompt));
+    } else {
+      // Keep stdout free for the report when outputting JSON. The types of prompts leave out the stream
+      const question: prompts.PromptObject & { stdout: NodeJS.WriteStream } = {
+        type: 'confirm',
+        name: 'value',
+        message: `${prompt}\n  Are you happy to proceed?`,
+        initial: true,
+        stdout: this.flags.output === 'json' ? process.stderr : process.stdout,
+      };
+      const response = await prompts(question);
+      if (!response.value) throw new Error(`Process aborted`);
+    }
+  }
+
+  async migrateAll(repositories: string[]): Promise<BatchResult[]> {
+    const results: BatchResult[] = new Array(repositories.length);
+    let next = 0;
+
+    // Each worker takes the next repository from the list until there are none left
+    const worker = async (): Promise<void> => {
+      while (next < repositories.length) {
+        const index = next++;
+        results[index] = await this.migrate(repositories[index]);
+      }
+    };
+
+    const workers = Math.max(1, Math.min(this.flags.concurrency, repositories.length));
+    await Promise.all(Array.from({ length: workers }, () => worker()));
+
+    return results;
+  }
+
+  /* Rename each branch of the repository in turn, skipping branches that the repository doesn't have */
+
+  async migrate(repo: string): Promise<BatchResult> {
+    const repository = `${this.org}/${repo}`;
+    const logger = this.logger.withPrefix(repository);
+    const reports: Report[] = [];
+
+    try {
+      const mappings: BranchMapping[] = [];
+      for (const mapping of this.mappings) {
+        if (await this.branchExists(repo, mapping.from)) {
+          mappings.push(mapping);
+        } else {
+          logger.debug(`Skipping ${mapping.from} as ${repository} has no branch with that name`);
+        }
+      }
+
+      for (const mapping of mappings) {
+        // The user has already confirmed the whole batch, so don't prompt for each repository
+        const gh = new GitHub(this.org, repo, this.credentials, logger, {
+          ...this.flags,
+          from: mapping.from,
+          to: mapping.to,
+          mappings,
+          force: true,
+        });
+        reports.push(gh.report);
+
+        await gh.migrate();
+      }
+      return { repository, success: true, reports };
+    } catch (err) {
+      logger.warn(err.message);
+      return { repository, success: false, error: err.message, reports };
+    }
+  }
+
+  async branchExists(repo: string, branch: string): Promise<boolean> {
+    try {
+      await this.octokit.repos.getBranch({ owner: this.org, repo, branch });
+      return true;
+    } catch (err) {
+      if (err.status === 404) return false;
+      throw err;
+    }
+  }
+
+  summarise(results: BatchResult[]): void {
+    const failures = results.filter((result) => !result.success);
+
+    this.logger.log(chalk.bold(`\nSummary`));
+    results.forEach((result) => {
+      if (result.success) {
+        this.logger.log(`${logSymbols.success} ${result.repository}`);
+      } else {
+        this.logger.log(`${logSymbols.error} ${result.repository} - ${result.error}`);
+      }
+    });
+
+    this.logger.information(
+      `${results.length - failures.length} of ${results.length} repositories ${
+        this.flags.execute ? 'migrated' : 'checked'
+      } successfully`,
+      true
+    );
+
+    if (!this.flags.execute && !failures.length) {
+      this.logger.information('Dry run complete. Run again with the -x or --execute flag to execute.');
+    }
+  }
+
+  /* Read a list of repository names from a file, one per line in the form `repo` or `owner/repo` */
+
+  readList(path: string): string[] {
+    return fs
+      .readFileSync(path, 'utf8')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('#'))
+      .map((line) => line.split('/').pop() as string)
+      .map((name) => name.toLowerCase());
+  }
+}
+
+export default Batch;
@@ -0,0 +1,103 @@
+import Batch, { BatchResult } from './batch';
+import Logger from './logger';
+import { Interaction } from './recording';
+import { collectingLogger, interaction, notFound, replayFlags } from './replay.test-helper';
+import chalk from 'chalk';
+import fs from 'fs';
+import logSymbols from 'log-symbols';
+import os from 'os';
+import path from 'path';
+
+/* Runs batches over repositories in the guardian organisation offline, replaying the responses GitHub gives */
+describe('The batch class', () => {
+  let dir: string;
+  let messages: string[];
+
+  const repository = (name: string): Record<string, unknown> => ({ name, default_branch: 'master', archived: false });
+
+  const batch = (interactions: Interaction[], concurrency = 2, logger = collectingLogger(messages)): Batch =>
+    new Batch('guardian', 'token', logger, { ...replayFlags(dir, interactions), concurrency });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-batch-'));
+    messages = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('migrates no more repositories at once than the concurrency allows', async () => {
+    const b = batch([], 2);
+    let running = 0;
+    let most = 0;
+    jest.spyOn(b, 'migrate').mockImplementation(async (repo: string): Promise<BatchResult> => {
+      running++;
+      most = Math.max(most, running);
+      await new Promise((resolve) => setImmediate(resolve));
+      running--;
+      return { repository: `guardian/${repo}`, success: true, reports: [] };
+    });
+
+    const results = await b.migrateAll(['a', 'b', 'c', 'd', 'e']);
+
+    expect(most).toBe(2);
+    expect(results.map((result) => result.repository)).toEqual([
+      'guardian/a',
+      'guardian/b',
+      'guardian/c',
+      'guardian/d',
+      'guardian/e',
+    ]);
+  });
+
+  test('prefixes the messages about each repository with its name', async () => {
+    const push = (message: string): void => {
+      messages.push(message);
+    };
+    const b = batch(
+      [interaction('GET', '/repos/guardian/a/branches/master', 404, notFound)],
+      2,
+      new Logger(true, push, push, push)
+    );
+
+    await b.migrate('a');
+
+    expect(messages).toContain(
+      `${chalk.dim('[guardian/a]')} Skipping master as guardian/a has no branch with that name`
+    );
+  });
+
+  test('carries on with the other repositories when one fails and summarises the failure', async () => {
+    const b = batch([
+      interaction('GET', '/orgs/guardian/repos?type=all&per_page=100', 200, [
+        repository('a'),
+        repository('b'),
+        repository('c'),
+      ]),
+      interaction('GET', '/repos/guardian/a/branches/master', 404, notFound),
+      interaction('GET', '/repos/guardian/b/branches/master', 403, {
+        message: 'Resource not accessible by integration',
+      }),
+      interaction('GET', '/repos/guardian/c/branches/master', 404, notFound),
+    ]);
+
+    const results = await b.run();
+
+    expect(results.map((result) => [result.repository, result.success, result.error])).toEqual([
+      ['guardian/a', true, undefined],
+      ['guardian/b', false, 'Resource not accessible by integration'],
+      ['guardian/c', true, undefined],
+    ]);
+    expect(messages).toContain(`${chalk.dim('[guardian/b]')} Resource not accessible by integration`);
+    expect(messages).toEqual(
+      expect.arrayContaining([
+        `${logSymbols.success} guardian/a`,
+        `${logSymbols.error} guardian/b - Resource not accessible by integration`,
+        `${logSymbols.success} guardian/c`,
+        expect.stringContaining('2 of 3 repositories checked successfully'),
+      ])
+    );
+    expect(messages).not.toContain('Dry run complete. Run again with the -x or --execute flag to execute.');
+  });
+});
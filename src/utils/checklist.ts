@@ -0,0 +1,24 @@
+const checklistItem = /^(\s*[-*] )\[([ xX])\] (.+)$/;
+
+/* The items of a markdown checklist that have been ticked */
+
+export const tickedItems = (body: string): string[] =>
+  body
+    .split('\n')
+    .map((line) => checklistItem.exec(line))
+    .reduce((items: string[], match) => (match && match[2] !== ' ' ? [...items, match[3].trim()] : items), []);
+
+/*
+ * Tick the items of a new checklist that were ticked in the previous version, so that updating an issue keeps the
+ * progress made on it. Items that are no longer in the checklist are dropped, and new items are left unticked.
+ */
+export const keepTickedItems = (previous: string, body: string): string => {
+  const ticked = tickedItems(previous);
+  return body
+    .split('\n')
+    .map((line) => {
+      const match = checklistItem.exec(line);
+      return match && ticked.includes(match[3].trim()) ? `${match[1]}[x] ${match[3]}` : line;
+    })
+    .join('\n');
+};
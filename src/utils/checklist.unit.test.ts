@@ -0,0 +1,26 @@
+import { keepTickedItems, tickedItems } from './checklist';
+
+describe('The tickedItems function', () => {
+  test('lists the items of a checklist that have been ticked', () => {
+    const body = ['Some text', '- [x] Update the workflows', '- [ ] Update the README', '  * [X] Update the wiki'];
+
+    expect(tickedItems(body.join('\n'))).toEqual(['Update the workflows', 'Update the wiki']);
+  });
+});
+
+describe('The keepTickedItems function', () => {
+  test('ticks the items that were ticked before and leaves new items unticked', () => {
+    const previous = ['- [x] README.md', '- [ ] docs/setup.md', '- [x] scripts/deploy.sh'].join('\n');
+    const body = ['Update these files:', '- [ ] README.md', '- [ ] docs/setup.md', '- [ ] Makefile'].join('\n');
+
+    expect(keepTickedItems(previous, body)).toBe(
+      ['Update these files:', '- [x] README.md', '- [ ] docs/setup.md', '- [ ] Makefile'].join('\n')
+    );
+  });
+
+  test('leaves the body as it is when nothing was ticked', () => {
+    expect(keepTickedItems('- [ ] README.md', '- [ ] README.md\n- [ ] Makefile')).toBe(
+      '- [ ] README.md\n- [ ] Makefile'
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PluginEntry } from './plugins';
+
+/* Overrides for an issue. The title and body can contain placeholders such as `{{owner}}` or `{{files}}` */
+
+export interface IssueTemplate {
+  title?: string;
+  body?: string;
+  labels?: string[];
+}
+
+export interface Config {
+  defaults?: Record<string, string | number | boolean>;
+  issues?: Record<string, IssueTemplate>;
+  plugins?: PluginEntry[];
+}
+
+export const configFileNames = ['.m2mrc', 'm2m.config.json'];
+
+const isLocal = (specifier: string): boolean => specifier.startsWith('.');
+
+/* Read a config file, resolving local plugin paths relative to the file */
+
+export const readConfigFile = (file: string): Config => {
+  let config: Config;
+  try {
+    config = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`Unable to read the config file at ${file} - ${err.message}`);
+  }
+
+  const dir = path.dirname(file);
+  return {
+    ...config,
+    plugins: (config.plugins ?? []).map((entry) => {
+      if (typeof entry === 'string') {
+        return isLocal(entry) ? path.resolve(dir, entry) : entry;
+      }
+      return isLocal(entry.name) ? { ...entry, name: path.resolve(dir, entry.name) } : entry;
+    }),
+  };
+};
+
+export const findConfigFile = (dir: string): string | undefined =>
+  configFileNames.map((name) => path.join(dir, name)).find((file) => fs.existsSync(file));
+
+/*
+ * Load the config from the home directory and then the current directory, with settings in the current directory
+ * taking precedence. Plugins from both files are loaded.
+ */
+export const loadConfig = (dirs: string[] = [os.homedir(), process.cwd()]): Config =>
+  dirs
+    .map((dir) => path.resolve(dir))
+    .filter((dir, index, all) => all.indexOf(dir) === index)
+    .map(findConfigFile)
+    .reduce((config: Config, file) => {
+      if (!file) return config;
+
+      const next = readConfigFile(file);
+      return {
+        defaults: { ...config.defaults, ...next.defaults },
+        issues: { ...config.issues, ...next.issues },
+        plugins: [...(config.plugins ?? []), ...(next.plugins ?? [])],
+      };
+    }, {});
+
+/* Use the config defaults as the defaults for the command flags */
+
+export const applyDefaults = <T extends Record<string, { default?: unknown }>>(
+  flags: T,
+  defaults: Record<string, unknown>
+): T =>
+  Object.keys(defaults).reduce((all, name) => {
+    if (!(name in flags)) {
+      throw new Error(`Unknown option ${name} in the config file defaults`);
+    }
+    return { ...all, [name]: { ...flags[name], default: defaults[name] } };
+  }, flags);
+
+/* Replace `{{name}}` placeholders with their values, leaving unknown placeholders as they are */
+
+export const renderTemplate = (template: string, variables: Record<string, string>): string =>
+  template.replace(/{{\s*(\w+)\s*}}/g, (match, name) => (name in variables ? variables[name] : match));
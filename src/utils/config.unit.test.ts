@@ -0,0 +1,83 @@
+import { applyDefaults, loadConfig, renderTemplate } from './config';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The config', () => {
+  describe('loadConfig function', () => {
+    let home: string;
+    let project: string;
+
+    beforeEach(() => {
+      home = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-home-'));
+      project = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-project-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(home, { recursive: true, force: true });
+      fs.rmSync(project, { recursive: true, force: true });
+    });
+
+    test('returns an empty config if there are no config files', () => {
+      expect(loadConfig([home, project])).toEqual({});
+    });
+
+    test('merges the project config over the home config', () => {
+      fs.writeFileSync(
+        path.join(home, '.m2mrc'),
+        JSON.stringify({ defaults: { to: 'trunk', guardian: false }, issues: { references: { title: 'Home' } } })
+      );
+      fs.writeFileSync(
+        path.join(project, 'm2m.config.json'),
+        JSON.stringify({ defaults: { to: 'main' }, issues: { otherConfiguration: { title: 'Project' } } })
+      );
+
+      expect(loadConfig([home, project])).toEqual({
+        defaults: { to: 'main', guardian: false },
+        issues: { references: { title: 'Home' }, otherConfiguration: { title: 'Project' } },
+        plugins: [],
+      });
+    });
+
+    test('resolves local plugins relative to the config file', () => {
+      fs.writeFileSync(
+        path.join(project, '.m2mrc'),
+        JSON.stringify({ plugins: ['./plugin.js', 'm2m-plugin', { name: './other.js', options: { a: 1 } }] })
+      );
+
+      expect(loadConfig([project]).plugins).toEqual([
+        path.join(project, 'plugin.js'),
+        'm2m-plugin',
+        { name: path.join(project, 'other.js'), options: { a: 1 } },
+      ]);
+    });
+
+    test('throws an error if a config file cannot be parsed', () => {
+      fs.writeFileSync(path.join(project, '.m2mrc'), 'not json');
+
+      expect(() => loadConfig([project])).toThrow('Unable to read the config file');
+    });
+  });
+
+  describe('applyDefaults function', () => {
+    test('sets the default of each flag in the config', () => {
+      const flags = { to: { default: 'main' }, force: { default: false } };
+
+      expect(applyDefaults(flags, { to: 'trunk' })).toEqual({ to: { default: 'trunk' }, force: { default: false } });
+    });
+
+    test('throws an error for an unknown flag', () => {
+      expect(() => applyDefaults({ to: { default: 'main' } }, { colour: 'blue' })).toThrow(
+        'Unknown option colour in the config file defaults'
+      );
+    });
+  });
+
+  describe('renderTemplate function', () => {
+    test('replaces known placeholders and leaves unknown ones', () => {
+      expect(renderTemplate('{{owner}}/{{ repo }} {{unknown}}', { owner: 'guardian', repo: 'test' })).toBe(
+        'guardian/test {{unknown}}'
+      );
+    });
+  });
+});
@@ -1,8 +1,53 @@
 import { Octokit } from '@octokit/rest';
 import chalk from 'chalk';
+import { AppAuth, Credentials, getInstallationPermissions, getToken, isAppAuth } from './auth';
+import { keepTickedItems } from './checklist';
+import { IssueTemplate, renderTemplate } from './config';
+import { IntegrationAudit, integrationItems, urlReferencesBranch } from './integrations';
 import prompts from 'prompts';
 import Logger from './logger';
-import emoji from 'node-emoji';
+import { BranchMapping } from './mappings';
+import * as emoji from 'node-emoji';
+import Journal, { FollowUp } from './journal';
+import { Plugin, PluginStep } from './plugins';
+import { FileChange, findDrift, Plan, PlanOptions, planVersion, RepositoryState, writePlan } from './plan';
+import { addToProject, findProject, parseProject, Project, ProjectRef, setProjectStatus } from './projects';
+import { rewriteReferences } from './references';
+import createOctokit, { webUrl } from './octokit';
+import Recording from './recording';
+import {
+  compareProtection,
+  describeProtection,
+  protectionParameters,
+  ProtectionSummary,
+  renameRulesetBranch,
+  Ruleset,
+  RulesetChange,
+  rulesetChange,
+  summariseProtection,
+} from './protection';
+import Report from './report';
+import { Step } from './step';
+import { FileMatch, findFiles, formatMatches } from './search';
+import { listWikiBranches, renameWikiBranch } from './wiki';
+import { findWorkflowReferences, fixWorkflowReferences, formatWorkflowReferences, Workflow } from './workflows';
+
+export interface PullRequest {
+  number: number;
+  title: string;
+  author: string;
+  createdAt: string;
+  url: string;
+  fork: boolean;
+}
+
+/* The label added to every issue opened by the migration, which is used to find them again */
+
+export const migrationLabel = {
+  name: 'master-to-main',
+  color: 'd93f0b',
+  description: 'Follow-up work from renaming the default branch',
+};
 
 class GitHub {
   owner: string;
@@ -10,28 +55,102 @@ class GitHub {
 
   newBranchName: string;
   oldBranchName: string;
+  // Every branch renamed in this run, including this one
+  mappings: BranchMapping[];
   force: boolean;
   execute: boolean;
-  guardian: boolean;
   issues: boolean;
+  fixReferences: boolean;
+  prComments: boolean;
+  scanTree: boolean;
+  assignee?: string;
+  assignTeam?: string;
+  trackingIssue: boolean;
+  projectRef?: ProjectRef;
+  projectStatus: string;
+  // Where to write the plan of a dry run, and the plan being applied
+  planFile?: string;
+  planOptions?: PlanOptions;
+  plan?: Plan;
+  resume: boolean;
+  plugins: Plugin[];
+  issueTemplates: Record<string, IssueTemplate>;
+  // With `json`, stdout is kept for the report, so prompts are written to stderr
+  output: string;
 
+  credentials: Credentials;
+  apiUrl: string;
   octokit: Octokit;
+  recording?: Recording;
   logger: Logger;
+  journal: Journal;
+  report: Report;
 
   defaultBranch = '';
+  privateRepo = true;
+  hasWiki = false;
+
+  // The changes made by the references pull request, and the files whose references to the old branch it updates fully
+  referenceChanges: FileChange[] = [];
+  fixedFiles: string[] = [];
+  referencesPullRequest?: string;
+
+  // The protection of the old branch before it was renamed, or null if it wasn't protected
+  protection?: ProtectionSummary | null;
+  rulesetChanges: { ruleset: Ruleset; change: RulesetChange }[] = [];
+
+  // The open pull requests to the old branch before it was renamed
+  pullRequests?: PullRequest[];
+
+  // GitHub Actions workflows that refer to the old branch
+  workflows: Workflow[] = [];
+  // The files that refer to the old branch, found once for fixing and checking them
+  referenceMatches?: FileMatch[];
+
+  integrations?: IntegrationAudit;
+
+  // Found once and used for every issue
+  issueAssignees?: string[];
+  labelChecked = false;
+
+  // The issues added to the tracking issue during this run
+  followUps: FollowUp[] = [];
+  project?: Project;
+
+  // The issues that would be opened during a dry run, and the files found that reference the old branch
+  plannedIssues: FollowUp[] = [];
+  referenceFiles: string[] = [];
 
   constructor(
     owner: string,
     repo: string,
-    token: string,
+    credentials: Credentials,
     logger: Logger,
     flags: {
       from: string;
       to: string;
+      mappings?: BranchMapping[];
       force: boolean;
       execute: boolean;
-      guardian: boolean;
       issues: boolean;
+      fixReferences: boolean;
+      prComments: boolean;
+      scanTree: boolean;
+      assignee?: string;
+      assignTeam?: string;
+      trackingIssue: boolean;
+      project?: string;
+      projectStatus: string;
+      planFile?: string;
+      planOptions?: PlanOptions;
+      applyPlan?: Plan;
+      resume: boolean;
+      journal: string;
+      plugins: Plugin[];
+      issueTemplates: Record<string, IssueTemplate>;
+      apiUrl: string;
+      recording?: Recording;
+      output?: string;
     }
   ) {
     this.owner = owner;
@@ -40,29 +159,32 @@ class GitHub {
 
     this.oldBranchName = flags.from;
     this.newBranchName = flags.to;
+    this.mappings = flags.mappings ?? [{ from: flags.from, to: flags.to }];
     this.force = flags.force;
     this.execute = flags.execute;
-    this.guardian = flags.guardian;
     this.issues = flags.issues;
+    this.fixReferences = flags.fixReferences;
+    this.prComments = flags.prComments;
+    this.scanTree = flags.scanTree;
+    this.assignee = flags.assignee;
+    this.assignTeam = flags.assignTeam;
+    this.trackingIssue = flags.trackingIssue;
+    this.projectRef = flags.project ? parseProject(flags.project, owner) : undefined;
+    this.projectStatus = flags.projectStatus;
+    this.planFile = flags.planFile;
+    this.planOptions = flags.planOptions;
+    this.plan = flags.applyPlan;
+    this.resume = flags.resume;
+    this.plugins = flags.plugins;
+    this.issueTemplates = flags.issueTemplates;
+    this.output = flags.output ?? 'text';
 
-    this.octokit = new Octokit({
-      auth: token,
-      previews: ['luke-cage-preview', 'zzzax-preview'],
-      log: {
-        debug: (message: string, ...args): void => {
-          this.logger.debug(`${message} ${JSON.stringify(args)}`);
-        },
-        info: (message: string): void => {
-          this.logger.debug(message);
-        },
-        warn: (message: string): void => {
-          this.logger.warn(message);
-        },
-        error: (message: string): void => {
-          this.logger.error(message);
-        },
-      },
-    });
+    this.journal = new Journal(flags.journal);
+    this.report = new Report(`${owner}/${repo}`, flags.from, flags.to, !flags.execute);
+    this.credentials = credentials;
+    this.apiUrl = flags.apiUrl;
+    this.recording = flags.recording;
+    this.octokit = createOctokit(credentials, logger, flags.apiUrl, flags.recording);
   }
 
   async run(): Promise<void> {
@@ -76,35 +198,167 @@ class GitHub {
       );
     }
 
-    return this.checkRepoExists()
-      .then(() => this.checkOldBranchDoesExist())
-      .then(() => this.checkNewBranchDoesNotExist())
-      .then(() => this.checkAdmin())
-      .then(() => this.checkWithUser())
-      .then(() => this.renameBranch())
-      .then(() => this.checkRiffRaffFile())
-      .then(() => this.checkReferencesToOldBranch())
-      .then(() => this.openOtherConfigurationIssue())
-      .then(() => {
-        if (this.execute) {
-          this.logger.log(emoji.emojify(`\n:tada: Success! :tada:`));
-          this.logger.information(
-            `Local copies of the repository can be updated by running the following commands:
+    return this.migrate()
+      .then(() => (this.planFile ? this.writePlan(this.planFile) : undefined))
+      .then(() => this.logComplete())
+      .catch((err: Error) => {
+        this.logger.error(err);
+      });
+  }
+
+  get steps(): Step[] {
+    return [
+      { name: 'checkRepoExists', run: (): Promise<void> => this.checkRepoExists(), rerun: true },
+      { name: 'checkOldBranchDoesExist', run: (): Promise<void> => this.checkOldBranchDoesExist() },
+      { name: 'checkNewBranchDoesNotExist', run: (): Promise<void> => this.checkNewBranchDoesNotExist() },
+      { name: 'checkBranchMappings', run: (): Promise<void> => this.checkBranchMappings() },
+      { name: 'checkAdmin', run: (): Promise<void> => this.checkAdmin(), rerun: true },
+      { name: 'checkBranchProtection', run: (): Promise<void> => this.checkBranchProtection() },
+      { name: 'listOpenPullRequests', run: (): Promise<void> => this.listOpenPullRequests() },
+      { name: 'checkIntegrations', run: (): Promise<void> => this.checkIntegrations() },
+      { name: 'checkProject', run: (): Promise<void> => this.checkProject(), rerun: true },
+      { name: 'checkWiki', run: (): Promise<void> => this.checkWiki() },
+      ...this.pluginSteps('preChecks'),
+      { name: 'checkPlan', run: (): Promise<void> => this.checkPlan() },
+      { name: 'checkWithUser', run: (): Promise<void> => this.checkWithUser() },
+      { name: 'renameBranch', run: (): Promise<void> => this.renameBranch() },
+      { name: 'verifyBranchProtection', run: (): Promise<void> => this.verifyBranchProtection() },
+      { name: 'retargetPullRequests', run: (): Promise<void> => this.retargetPullRequests() },
+      { name: 'updatePages', run: (): Promise<void> => this.updatePages() },
+      { name: 'updateEnvironments', run: (): Promise<void> => this.updateEnvironments() },
+      { name: 'renameWikiBranch', run: (): Promise<void> => this.renameWikiBranch() },
+      ...this.pluginSteps('mutations'),
+      ...this.pluginSteps('postRenameChecks'),
+      { name: 'checkWorkflows', run: (): Promise<void> => this.checkWorkflows(), rerun: true },
+      { name: 'fixReferencesToOldBranch', run: (): Promise<void> => this.fixReferencesToOldBranch() },
+      { name: 'checkReferencesToOldBranch', run: (): Promise<void> => this.checkReferencesToOldBranch() },
+      { name: 'openOtherConfigurationIssue', run: (): Promise<void> => this.openOtherConfigurationIssue() },
+      { name: 'openTrackingIssue', run: (): Promise<void> => this.openTrackingIssue() },
+    ];
+  }
+
+  /* Steps from each plugin, named after the plugin so that they can be recorded in the journal */
+
+  pluginSteps(stage: 'preChecks' | 'mutations' | 'postRenameChecks'): Step[] {
+    return this.plugins.reduce(
+      (steps: Step[], plugin) =>
+        steps.concat(
+          (plugin[stage] ?? []).map((step: PluginStep) => ({
+            name: `${plugin.name}:${step.name}`,
+            run: (): Promise<void> => step.run(this),
+          }))
+        ),
+      []
+    );
+  }
+
+  logComplete(): void {
+    if (this.execute) {
+      this.logger.log(emoji.emojify(`\n:tada: Success! :tada:`));
+      this.logger.information(
+        `Local copies of the repository can be updated by running the following commands:
 
 $ git fetch --all
 $ git remote set-head origin -a
 $ git branch --set-upstream-to origin/${this.newBranchName}
 $ git branch -m ${this.oldBranchName} ${this.newBranchName}
-             `,
-            true
-          );
-        } else {
-          this.logger.information('Dry run complete. Run again with the -x or --execute flag to execute.', true);
-        }
-      })
-      .catch((err: Error) => {
-        this.logger.error(err);
-      });
+
+Or by running the following command in each local copy, which also updates any other branches tracking ${this.oldBranchName}:
+
+$ m2m local ${this.owner}/${this.repo} --from ${this.oldBranchName} --to ${this.newBranchName} --execute
+         `,
+        true
+      );
+    } else if (this.planFile) {
+      this.logger.information(
+        `Plan written to ${this.planFile}. Review it and run \`m2m apply ${this.planFile}\` to execute it.`,
+        true
+      );
+    } else {
+      this.logger.information('Dry run complete. Run again with the -x or --execute flag to execute.', true);
+    }
+  }
+
+  /*
+   * The titles of the issues opened for further changes, which are also used to find them when rolling back. Each names
+   * both branches, so the issues for other branches renamed in the same repository are kept apart.
+   */
+  get issueTitles(): { references: string; otherConfiguration: string; tracking: string } {
+    const renaming = `renaming ${this.oldBranchName} to ${this.newBranchName}`;
+    return {
+      tracking: this.issueTitle('tracking', `Follow up on ${renaming}`),
+      references: this.issueTitle(
+        'references',
+        `Check references to ${this.oldBranchName} after renaming it to ${this.newBranchName}`
+      ),
+      otherConfiguration: this.issueTitle(
+        'otherConfiguration',
+        `Update ${this.plugins.length ? 'other ' : ''}build configuration after ${renaming}`
+      ),
+    };
+  }
+
+  /* Ask the user to confirm a change */
+
+  async confirm(message: string): Promise<boolean> {
+    // The types of prompts leave out the stream a question is written to
+    const question: prompts.PromptObject & { stdout: NodeJS.WriteStream } = {
+      type: 'confirm',
+      name: 'value',
+      message,
+      initial: true,
+      stdout: this.output === 'json' ? process.stderr : process.stdout,
+    };
+    const response = await prompts(question);
+    return !!response.value;
+  }
+
+  /* Run each step in order, rejecting with the error of the first step that fails */
+
+  async migrate(): Promise<void> {
+    const repository = this.journalKey;
+    const entry = this.resume ? this.journal.get(repository) : undefined;
+
+    if (this.resume) {
+      if (!entry) {
+        this.logger.information(
+          `No previous migration of ${repository} found in the journal. Starting from the beginning`
+        );
+      } else if (entry.from !== this.oldBranchName || entry.to !== this.newBranchName) {
+        throw new Error(
+          `The journal records a migration of ${repository} from ${entry.from} to ${entry.to}. Run again with matching --from and --to flags`
+        );
+      } else {
+        this.logger.information(
+          `Resuming the migration of ${repository}${entry.failed ? ` from the ${entry.failed} step` : ''}`
+        );
+      }
+    }
+
+    // Only executed migrations are recorded, as dry runs make no changes
+    if (this.execute && !entry) {
+      this.journal.start(repository, this.oldBranchName, this.newBranchName);
+    }
+
+    for (const step of this.steps) {
+      if (entry?.completed.includes(step.name) && !step.rerun) {
+        this.logger.success(`Skipping ${step.name} as it has already been completed`);
+        this.report.skip(step.name);
+        continue;
+      }
+
+      try {
+        await this.report.step(step.name, step.run);
+      } catch (err) {
+        if (this.execute) this.journal.fail(repository, step.name);
+        this.report.finish(err);
+        throw err;
+      }
+
+      if (this.execute) this.journal.complete(repository, step.name);
+    }
+
+    this.report.finish();
   }
 
   /* Steps */
@@ -119,8 +373,12 @@ $ git branch -m ${this.oldBranchName} ${this.newBranchName}
         repo: this.repo,
       });
 
-      // Store default branch so we can use it later
-      this.defaultBranch = repo.data.default_branch;
+      // Store default branch and visibility so we can use them later. Once the branch has been renamed the default
+      // branch has changed, so a resumed migration uses the default branch recorded before the rename
+      this.defaultBranch =
+        (this.resume ? this.journal.get(this.journalKey)?.defaultBranch : undefined) ?? repo.data.default_branch;
+      this.privateRepo = repo.data.private;
+      this.hasWiki = repo.data.has_wiki;
 
       spinner.succeed();
     } catch (err) {
@@ -151,6 +409,12 @@ $ git branch -m ${this.oldBranchName} ${this.newBranchName}
         branch: this.oldBranchName,
       });
 
+      if (this.defaultBranch && this.defaultBranch !== this.oldBranchName) {
+        this.logger.warn(
+          `${this.oldBranchName} is not the default branch, so the default branch (${this.defaultBranch}) won't change`
+        );
+      }
+
       spinner.succeed();
     } catch (err) {
       spinner.fail();
@@ -184,14 +448,77 @@ $ git branch -m ${this.oldBranchName} ${this.newBranchName}
     }
   }
 
+  /*
+   * When renaming several branches, check the branches renamed after this one before making any changes, so that a
+   * problem with a later mapping doesn't leave the repository partly migrated
+   */
+  async checkBranchMappings(): Promise<void> {
+    const index = this.mappings.findIndex((mapping) => mapping.from === this.oldBranchName);
+    const later = this.mappings.slice(index + 1);
+    if (!later.length) {
+      return;
+    }
+
+    const msg = `Checking the other branches to rename`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const exists = async (branch: string): Promise<boolean> => {
+        try {
+          await this.octokit.repos.getBranch({ owner: this.owner, repo: this.repo, branch });
+          return true;
+        } catch (err) {
+          if (err.status === 404) return false;
+          throw err;
+        }
+      };
+
+      const problems: string[] = [];
+      for (const mapping of later) {
+        if (!(await exists(mapping.from))) problems.push(`The ${mapping.from} branch does not exist`);
+        if (await exists(mapping.to)) problems.push(`The ${mapping.to} branch already exists`);
+      }
+      if (problems.length) {
+        throw new Error(problems.join('. '));
+      }
+
+      this.logger.log(`${later.map((mapping) => `${mapping.from} to ${mapping.to}`).join(', ')} will be renamed next`);
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
   async checkAdmin(): Promise<void> {
     const msg = `Checking that you have the required permissions`;
 
     const spinner = this.logger.spin(msg);
     try {
+      if (isAppAuth(this.credentials)) {
+        await this.checkAppPermissions(this.credentials);
+        spinner.succeed();
+        return;
+      }
+
       this.logger.log('Getting username from access token');
       const user = await this.octokit.users.getAuthenticated();
 
+      // Classic tokens list their scopes in this header. Fine-grained tokens don't, so can't be checked up front
+      const header = user.headers['x-oauth-scopes'];
+      if (header !== undefined) {
+        const scopes = header.split(',').map((scope) => scope.trim());
+        const required = this.privateRepo ? ['repo'] : ['repo', 'public_repo'];
+
+        if (!required.some((scope) => scopes.includes(scope))) {
+          throw new Error(
+            `The access token is missing the ${required.join(' or ')} scope required to update ${
+              this.privateRepo ? 'private' : 'public'
+            } repositories. It has the following scopes: ${header || 'none'}`
+          );
+        }
+      }
+
       this.logger.log('Getting repositoring permissions for user');
       const permissions = await this.octokit.repos.getCollaboratorPermissionLevel({
         owner: this.owner,
@@ -202,7 +529,9 @@ $ git branch -m ${this.oldBranchName} ${this.newBranchName}
       if (permissions.data.permission === 'admin') {
         spinner.succeed();
       } else {
-        throw new Error('You must be a repo admin to complete this migration');
+        throw new Error(
+          `You must be a repo admin to complete this migration, but ${user.data.login} has ${permissions.data.permission} permission on ${this.owner}/${this.repo}`
+        );
       }
     } catch (err) {
       spinner.fail();
@@ -210,45 +539,233 @@ $ git branch -m ${this.oldBranchName} ${this.newBranchName}
     }
   }
 
-  async checkWithUser(): Promise<void> {
-    const msg = `Checking the number of open pull requests to ${this.oldBranchName} and confirming actions with user`;
+  /* Apps don't have a permission level on the repository, so check the permissions granted to the installation */
+
+  async checkAppPermissions(auth: AppAuth): Promise<void> {
+    this.logger.log('Getting the permissions granted to the app installation');
+    const permissions = await getInstallationPermissions(auth);
+
+    const required = ['administration', 'contents'];
+    if (this.issues) required.push('issues');
+    if (this.issues && this.projectRef) required.push('organization_projects');
+    if (this.fixReferences || this.prComments) required.push('pull_requests');
+
+    const missing = required.filter((permission) => permissions[permission] !== 'write');
+    if (missing.length) {
+      throw new Error(
+        `The GitHub App installation must have write access to ${missing.join(
+          ', '
+        )} to complete this migration. Update the app permissions and accept them on the installation`
+      );
+    }
+  }
+
+  async checkBranchProtection(): Promise<void> {
+    const msg = `Checking the branch protection and rulesets for ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      this.protection = (await this.getProtection(this.oldBranchName)) ?? null;
+      this.logger.log(describeProtection(this.oldBranchName, this.protection ?? undefined));
+
+      // Keep the protection in the journal, as the old branch is gone by the time it is compared when resuming
+      if (this.execute) this.journal.recordProtection(this.journalKey, this.protection);
+
+      const isDefault = this.defaultBranch === this.oldBranchName;
+      this.rulesetChanges = (await this.getRulesets()).reduce(
+        (changes: { ruleset: Ruleset; change: RulesetChange }[], ruleset) => {
+          const change = rulesetChange(ruleset, this.oldBranchName, this.newBranchName, isDefault);
+          return change ? [...changes, { ruleset, change }] : changes;
+        },
+        []
+      );
+
+      this.report.detail('branchProtection', this.protection);
+      this.report.detail(
+        'rulesets',
+        this.rulesetChanges.map(({ ruleset, change }) => ({ name: ruleset.name, source: ruleset.source, change }))
+      );
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async listOpenPullRequests(): Promise<void> {
+    const msg = `Listing the open pull requests to ${this.oldBranchName}`;
 
     const spinner = this.logger.spin(msg);
+    try {
+      this.pullRequests = await this.getOpenPullRequests(this.oldBranchName);
+      for (const pr of this.pullRequests) {
+        this.logger.log(
+          `#${pr.number} ${pr.title} by ${pr.author}, opened ${this.age(pr.createdAt)} ago${
+            pr.fork ? ' from a fork' : ''
+          }`
+        );
+      }
+
+      this.report.detail('openPullRequests', this.pullRequests.length);
+      this.report.detail(
+        'pullRequests',
+        this.pullRequests.map((pr) => ({ number: pr.number, author: pr.author, createdAt: pr.createdAt, url: pr.url }))
+      );
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
 
-    let numberOfTotalOpenPullRequests: number;
+  async checkIntegrations(): Promise<void> {
+    const msg = `Checking webhooks, GitHub Pages, environments, apps and deploy keys for references to ${this.oldBranchName}`;
 
+    const spinner = this.logger.spin(msg);
     try {
-      const prs = await this.octokit.search.issuesAndPullRequests({
-        q: `type:pr+state:open+base:${this.oldBranchName}+repo:${this.owner}/${this.repo}`,
+      const audit = await this.auditIntegrations();
+
+      const webhooks = audit.webhooks.filter((webhook) => urlReferencesBranch(webhook.url, this.oldBranchName));
+      this.logger.log(
+        `${audit.webhooks.length} ${audit.webhooks.length === 1 ? 'webhook' : 'webhooks'}${
+          webhooks.length ? `, ${webhooks.length} referring to ${this.oldBranchName}` : ''
+        }`
+      );
+      if (audit.pages?.branch === this.oldBranchName) {
+        this.logger.log(`GitHub Pages is published from ${this.oldBranchName}`);
+      }
+      for (const environment of audit.environments) {
+        if (environment.policies.some((policy) => policy.name === this.oldBranchName)) {
+          this.logger.log(`The ${environment.name} environment allows deployments from ${this.oldBranchName}`);
+        }
+      }
+      this.logger.log(
+        `${audit.apps.length} installed ${audit.apps.length === 1 ? 'app' : 'apps'} and ${
+          audit.deployKeys.length
+        } deploy ${audit.deployKeys.length === 1 ? 'key' : 'keys'}`
+      );
+
+      this.report.detail('integrations', {
+        webhooks: audit.webhooks.length,
+        webhooksReferencingOldBranch: webhooks.length,
+        pagesBranch: audit.pages?.branch ?? null,
+        environments: audit.environments.map((environment) => environment.name),
+        apps: audit.apps,
+        deployKeys: audit.deployKeys.length,
       });
-      numberOfTotalOpenPullRequests = prs.data.total_count;
       spinner.succeed();
     } catch (err) {
       spinner.fail();
       throw err;
     }
+  }
+
+  async checkProject(): Promise<void> {
+    if (!this.issues || !this.projectRef) {
+      return;
+    }
+
+    const msg = `Finding project ${this.projectRef.number} of ${this.projectRef.owner}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      this.project = await findProject(this.octokit, this.projectRef, 'Status');
+
+      const statuses = this.project.statusField?.options.map((option) => option.name) ?? [];
+      if (!statuses.some((status) => status.toLowerCase() === this.projectStatus.toLowerCase())) {
+        throw new Error(
+          `The ${this.project.title} project has no ${this.projectStatus} status. ${
+            statuses.length ? `Use one of ${statuses.join(', ')}` : 'Add a Status field to the project'
+          }`
+        );
+      }
+
+      this.logger.log(`Issues will be added to ${this.project.title} (${this.project.url}) as ${this.projectStatus}`);
+      this.report.detail('project', this.project.url);
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async checkWiki(): Promise<void> {
+    const msg = `Checking the branches of the wiki`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const branches = await this.getWikiBranches();
+
+      if (this.hasWiki && this.recording?.replaying) {
+        this.logger.log('The wiki is left out when replaying, as git requests are not recorded');
+      } else if (!branches) {
+        this.logger.log('The repository has no wiki');
+      } else if (branches.includes(this.oldBranchName)) {
+        this.logger.log(
+          `The wiki has a ${this.oldBranchName} branch, which can be renamed to ${this.newBranchName} after the repository`
+        );
+      }
+      this.report.detail('wikiBranches', branches ?? []);
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  /* Abort applying a plan if the repository has changed since the plan was made */
+
+  async checkPlan(): Promise<void> {
+    if (!this.plan) {
+      return;
+    }
+
+    const msg = `Checking that the repository hasn't changed since the plan was made on ${this.plan.createdAt}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const drift = findDrift(this.plan.state, await this.getState());
+      if (drift.length) {
+        throw new Error(
+          `The repository has changed since the plan was made:\n  - ${drift.join(
+            '\n  - '
+          )}\nMake a new plan with \`m2m plan\``
+        );
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async checkWithUser(): Promise<void> {
+    // The pull requests aren't listed again when resuming a migration that was aborted here
+    const prs = this.pullRequests ?? (await this.getOpenPullRequests(this.oldBranchName));
+    const numberOfTotalOpenPullRequests = prs.length;
 
     const verb = this.execute ? 'will' : 'would';
     let prompt = `This script ${verb} now update the ${this.oldBranchName} branch to ${this.newBranchName} on the ${this.owner}/${this.repo} repository. `;
     const prPrompt = `${numberOfTotalOpenPullRequests} open pull requests ${verb} be updated.`;
-    if (numberOfTotalOpenPullRequests > 30) {
-      prompt += chalk.bgYellow.black(prPrompt);
-    } else if (numberOfTotalOpenPullRequests > 50) {
+    if (numberOfTotalOpenPullRequests > 50) {
       prompt += chalk.bgRed.white(prPrompt);
+    } else if (numberOfTotalOpenPullRequests > 30) {
+      prompt += chalk.bgYellow.black(prPrompt);
     } else {
       prompt += prPrompt;
     }
 
+    const protectionPrompt = this.protectionPrompt();
+    if (protectionPrompt.length) {
+      prompt += `\n  ${protectionPrompt.join('\n  ')}`;
+    }
+
     if (this.force) {
       this.logger.log(chalk.bold(prompt));
     } else {
-      const response = await prompts({
-        type: 'confirm',
-        name: 'value',
-        message: `${prompt}\n  Are you happy to proceed?`,
-        initial: true,
-      });
-      if (!response.value) throw new Error(`Process aborted`);
+      if (!(await this.confirm(`${prompt}\n  Are you happy to proceed?`))) throw new Error(`Process aborted`);
     }
   }
 
@@ -258,12 +775,9 @@ $ git branch -m ${this.oldBranchName} ${this.newBranchName}
     const spinner = this.logger.spin(msg);
     try {
       if (this.execute) {
-        await this.octokit.repos.renameBranch({
-          owner: this.owner,
-          repo: this.repo,
-          branch: this.oldBranchName,
-          new_name: this.newBranchName,
-        });
+        this.journal.recordDefaultBranch(this.journalKey, this.defaultBranch);
+
+        await this.moveBranch(this.oldBranchName, this.newBranchName);
       }
 
       spinner.succeed();
@@ -273,54 +787,78 @@ $ git branch -m ${this.oldBranchName} ${this.newBranchName}
     }
   }
 
-  async checkRiffRaffFile(): Promise<void> {
-    if (!this.guardian) return;
-    const msg = `Checking to see if a riff-raff.yaml file exists`;
+  async verifyBranchProtection(): Promise<void> {
+    const msg = `Checking that branch protection and rulesets apply to ${this.newBranchName}`;
 
     const spinner = this.logger.spin(msg);
     try {
-      const files = await this.octokit.search.code({
-        q: `repo:${this.owner}/${this.repo}+filename:*/riff-raff.yaml`,
-      });
-
-      if (!files.data.total_count) {
-        this.logger.log('No riff-raff.yaml file found');
+      if (!this.execute) {
+        for (const { ruleset } of this.rulesetChanges.filter(({ change }) => change === 'update')) {
+          this.logger.log(`The ${ruleset.name} ruleset would be updated to target ${this.newBranchName}`);
+        }
         spinner.succeed();
         return;
       }
 
-      if (!this.issues) {
-        this.logger.log(`${files.data.total_count} riff-raff.yaml file(s) found.`);
+      const updated: string[] = [];
+      const isDefault = this.defaultBranch === this.oldBranchName;
+      for (const ruleset of await this.getRulesets()) {
+        switch (rulesetChange(ruleset, this.oldBranchName, this.newBranchName, isDefault)) {
+          case 'update':
+            this.logger.log(`Updating the ${ruleset.name} ruleset to target ${this.newBranchName}`);
+            this.journal.recordRuleset(this.journalKey, {
+              id: ruleset.id,
+              name: ruleset.name,
+              conditions: ruleset.conditions ?? {},
+            });
+            await this.octokit.repos.updateRepoRuleset({
+              owner: this.owner,
+              repo: this.repo,
+              ruleset_id: ruleset.id,
+              conditions: renameRulesetBranch(ruleset.conditions ?? {}, this.oldBranchName, this.newBranchName),
+            });
+            updated.push(ruleset.name);
+            break;
+          case 'organisation':
+            this.logger.warn(
+              `The ${ruleset.name} ruleset of the ${ruleset.source} organisation targets ${this.oldBranchName} and needs to be updated in the organisation settings`
+            );
+            break;
+          case 'lost':
+            this.logger.warn(`The ${ruleset.name} ruleset no longer applies to ${this.newBranchName}`);
+            break;
+        }
+      }
+      this.report.detail('updatedRulesets', updated);
+
+      const before = this.protection !== undefined ? this.protection : this.journal.get(this.journalKey)?.protection;
+      if (before === undefined) {
+        this.logger.warn(`The protection of ${this.oldBranchName} wasn't recorded, so can't be compared`);
         spinner.succeed();
         return;
       }
 
-      this.logger.log(`${files.data.total_count} riff-raff.yaml file(s) found. Opening an issue.`);
-      if (this.execute) {
-        await this.octokit.issues.create({
+      let after = await this.getProtection(this.newBranchName);
+      if (before && !after) {
+        this.logger.log(`Recreating the branch protection for ${this.newBranchName}`);
+        this.journal.recordProtectionRecreated(this.journalKey);
+        await this.octokit.repos.updateBranchProtection({
           owner: this.owner,
           repo: this.repo,
-          title: 'Update Riff Raff configuration',
-          labels: ['master-to-main'],
-          body: `The ${this.oldBranchName} branch of this repository has been migrated to ${
-            this.newBranchName
-          } using the [master-to-main](https://github.com/guardian/master-to-main) tool.
-
-  The following \`riff-raff.yaml\` file(s) have been found in the repostiory:
-
-  ${files.data.items
-    .map((item) => {
-      return `- [ ] [${item.path}](${item.repository.html_url}/blob/${this.newBranchName}/${item.path})`;
-    })
-    .join('\n')}
-
-For each deployment, you will need to complete the following steps:
-
-1. Fix continuous deployments: https://riffraff.gutools.co.uk/deployment/continuous
-1. Ensure blocked deployments are still blocked: https://riffraff.gutools.co.uk/deployment/restrictions
-          `,
+          branch: this.newBranchName,
+          ...protectionParameters(before),
         });
+        if (before.restricted) {
+          this.logger.warn(`The push restrictions of ${this.oldBranchName} need to be recreated by hand`);
+        }
+        after = await this.getProtection(this.newBranchName);
+      }
+
+      const differences = compareProtection(before ?? undefined, after);
+      for (const difference of differences) {
+        this.logger.warn(difference);
       }
+      this.report.detail('protectionDifferences', differences);
 
       spinner.succeed();
     } catch (err) {
@@ -329,54 +867,73 @@ For each deployment, you will need to complete the following steps:
     }
   }
 
-  async checkReferencesToOldBranch(): Promise<void> {
-    const msg = `Checking to see if any files reference ${this.oldBranchName}`;
+  async retargetPullRequests(): Promise<void> {
+    const msg = `Checking that open pull requests target ${this.newBranchName}`;
 
     const spinner = this.logger.spin(msg);
     try {
-      const files = await this.octokit.search.code({
-        q: `repo:${this.owner}/${this.repo}+${this.oldBranchName}`,
-      });
-
-      if (!files.data.total_count) {
-        this.logger.log('No references found');
-        spinner.succeed();
-        return;
-      }
-
-      if (!this.issues) {
-        this.logger.log(`${files.data.total_count} ${files.data.total_count === 1 ? 'file' : 'files'} found.`);
+      if (!this.execute) {
+        const count = this.pullRequests?.length ?? 0;
+        this.logger.log(
+          `${count} open pull ${count === 1 ? 'request' : 'requests'} would be checked${
+            this.prComments ? ' and commented on' : ''
+          }`
+        );
         spinner.succeed();
         return;
       }
 
-      this.logger.log(
-        `${files.data.total_count} ${files.data.total_count === 1 ? 'file' : 'files'} found. Opening an issue.`
-      );
+      // GitHub retargets pull requests when a branch is renamed, so any still open against the old branch are stragglers
+      const numbers = new Set([
+        ...(this.pullRequests ?? []).map((pr) => pr.number),
+        ...(await this.getOpenPullRequests(this.oldBranchName)).map((pr) => pr.number),
+      ]);
 
-      if (this.execute) {
-        await this.octokit.issues.create({
+      const retargeted: number[] = [];
+      for (const number of numbers) {
+        const pr = await this.octokit.pulls.get({
           owner: this.owner,
           repo: this.repo,
-          title: `Check references to ${this.oldBranchName}`,
-          labels: ['master-to-main'],
-          body: `The ${this.oldBranchName} branch of this repository has been migrated to ${
-            this.newBranchName
-          } using the [master-to-main](https://github.com/guardian/master-to-main) tool.
+          pull_number: number,
+        });
+        if (pr.data.state !== 'open') continue;
 
-  Some files in the repository contain the word ${
-    this.oldBranchName
-  }. Please check the following files and update where required:
+        if (pr.data.base.ref !== this.newBranchName) {
+          this.logger.log(`Retargeting #${number} from ${pr.data.base.ref} to ${this.newBranchName}`);
+          await this.octokit.pulls.update({
+            owner: this.owner,
+            repo: this.repo,
+            pull_number: number,
+            base: this.newBranchName,
+          });
+          retargeted.push(number);
+        }
 
-  ${files.data.items
-    .map((item) => {
-      return `- [ ] [${item.path}](${item.repository.html_url}/blob/${this.newBranchName}/${item.path})`;
-    })
-    .join('\n')}
-          `,
-        });
+        if (this.prComments) {
+          await this.octokit.issues.createComment({
+            owner: this.owner,
+            repo: this.repo,
+            issue_number: number,
+            body: `The ${this.oldBranchName} branch of this repository has been migrated to ${this.newBranchName} using the [master-to-main](https://github.com/guardian/master-to-main) tool, so the base branch of this pull request is now ${this.newBranchName}.
+
+If you have a local copy of this branch, you can update it with:
+
+\`\`\`sh
+git fetch origin
+git rebase origin/${this.newBranchName}
+\`\`\`
+`,
+          });
+        }
       }
 
+      this.logger.log(
+        retargeted.length
+          ? `${retargeted.length} pull ${retargeted.length === 1 ? 'request was' : 'requests were'} retargeted`
+          : `All open pull requests target ${this.newBranchName}`
+      );
+      this.report.detail('retargetedPullRequests', retargeted);
+
       spinner.succeed();
     } catch (err) {
       spinner.fail();
@@ -384,42 +941,370 @@ For each deployment, you will need to complete the following steps:
     }
   }
 
-  async openOtherConfigurationIssue(): Promise<void> {
-    if (!this.issues) {
-      return;
-    }
+  /* Switch a GitHub Pages site published from the old branch to the new branch */
 
-    const msg = `Opening issue regarding other configuration`;
+  async updatePages(): Promise<void> {
+    const msg = `Checking the source of the GitHub Pages site`;
 
     const spinner = this.logger.spin(msg);
     try {
-      if (this.execute) {
-        await this.octokit.issues.create({
-          owner: this.owner,
-          repo: this.repo,
-          title: `Update ${this.guardian ? 'other' : ''} build configuration`,
-          labels: ['master-to-main'],
-          body: `The ${this.oldBranchName} branch of this repository has been migrated to ${
-            this.newBranchName
-          } using the [master-to-main](https://github.com/guardian/master-to-main) tool.
+      let site;
+      try {
+        site = await this.octokit.repos.getPages({ owner: this.owner, repo: this.repo });
+      } catch (err) {
+        if (err.status !== 404) throw err;
+      }
+      const source = site?.data.source;
 
-  Please check any build related configuration and update as required${this.guardian ? ':' : '.'}
-          ${
-            this.guardian
-              ? `
-  - [ ] TeamCity - See the required steps in the [migrating.md](https://github.com/guardian/master-to-main/blob/main/migrating.md#update-ci-typically-teamcity) document
-  - [ ] Change snyk github integration(s) - it uses the default branch, but you will need to delete and reimport the project+file as this is the only way to refresh the default branch at present.
-  - [ ] Any other externally configured analysis tooling your team is using e.g. travis CI
-          `
-              : ''
-          }
+      if (!site) {
+        this.logger.log('The repository has no GitHub Pages site');
+      } else if (site.data.build_type === 'workflow') {
+        this.logger.log('The GitHub Pages site is built by a workflow, so has no source branch');
+      } else if (source?.branch === this.oldBranchName) {
+        if (this.execute) {
+          this.logger.log(`Switching the GitHub Pages source to ${this.newBranchName}`);
+          this.journal.recordPagesPath(this.journalKey, source.path);
+          await this.updateSetting('GitHub Pages source', () =>
+            this.octokit.repos.updateInformationAboutPagesSite({
+              owner: this.owner,
+              repo: this.repo,
+              source: { branch: this.newBranchName, path: source.path as '/' | '/docs' },
+            })
+          );
+        } else {
+          this.logger.log(`Would switch the GitHub Pages source from ${this.oldBranchName} to ${this.newBranchName}`);
+        }
+        this.report.detail('pagesSource', { from: this.oldBranchName, to: this.newBranchName, path: source.path });
+      } else {
+        this.logger.log(`The GitHub Pages site is published from ${source?.branch}`);
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async updateEnvironments(): Promise<void> {
+    const msg = `Updating environments that allow deployments from ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      // The branch has only been renamed when executing, so the settings are fetched again rather than reused
+      const audit = this.execute ? await this.auditIntegrations() : this.integrations;
+      const verb = this.execute ? 'Updating' : 'Would update';
+      const updated: string[] = [];
+
+      for (const environment of audit?.environments ?? []) {
+        for (const policy of environment.policies.filter((policy) => policy.name === this.oldBranchName)) {
+          this.logger.log(`${verb} the deployment branch policy of the ${environment.name} environment`);
+          if (this.execute) {
+            this.journal.recordEnvironmentPolicy(this.journalKey, { environment: environment.name, id: policy.id });
+            await this.updateSetting(`${environment.name} environment`, () =>
+              this.octokit.repos.updateDeploymentBranchPolicy({
+                owner: this.owner,
+                repo: this.repo,
+                environment_name: environment.name,
+                branch_policy_id: policy.id,
+                name: this.newBranchName,
+              })
+            );
+          }
+          updated.push(environment.name);
+        }
+      }
+
+      if (!updated.length) {
+        this.logger.log('Nothing to update');
+      }
+      this.report.detail('updatedEnvironments', updated);
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  /* The wiki is a separate repository, so its branch is only renamed if the user agrees to it */
+
+  async renameWikiBranch(): Promise<void> {
+    const branches = await this.getWikiBranches();
+    if (!branches || !branches.includes(this.oldBranchName)) {
+      return;
+    }
+    const token = await getToken(this.credentials);
+
+    if (this.execute && !this.force) {
+      if (
+        !(await this.confirm(`Rename the ${this.oldBranchName} branch of the wiki to ${this.newBranchName} as well?`))
+      ) {
+        this.logger.log(`Leaving the ${this.oldBranchName} branch of the wiki as it is`);
+        return;
+      }
+    }
+
+    const msg = `Renaming the ${this.oldBranchName} branch of the wiki to ${this.newBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      if (branches.includes(this.newBranchName)) {
+        this.logger.warn(
+          `The wiki already has a ${this.newBranchName} branch, so ${this.oldBranchName} has not been renamed`
+        );
+      } else if (this.execute) {
+        this.journal.recordWikiRenamed(this.journalKey);
+        if (!renameWikiBranch(this.wikiUrl, this.oldBranchName, this.newBranchName, token)) {
+          this.logger.warn(
+            `The wiki's ${this.newBranchName} branch has been created, but its ${this.oldBranchName} branch could not be deleted as the wiki is still served from it`
+          );
+        }
+        this.report.detail('wikiBranch', this.newBranchName);
+      } else {
+        this.logger.log(`Would rename the ${this.oldBranchName} branch of the wiki to ${this.newBranchName}`);
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async checkWorkflows(): Promise<void> {
+    const msg = `Checking GitHub Actions workflows for references to ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      for (const file of await this.readWorkflows()) {
+        let references;
+        try {
+          references = findWorkflowReferences(file.content, this.oldBranchName, this.newBranchName);
+        } catch (err) {
+          this.logger.warn(`Unable to parse ${file.path} - ${err.message}`);
+          continue;
+        }
+
+        for (const reference of references) {
+          this.logger.log(`${file.path}:${reference.line} ${reference.path}: ${reference.text}`);
+        }
+        if (references.length) this.workflows.push({ ...file, references });
+      }
+
+      if (!this.workflows.length) {
+        this.logger.log('No workflows refer to the old branch');
+      }
+      this.report.detail(
+        'workflowReferences',
+        this.workflows.reduce(
+          (all: { file: string; line: number; path: string; kind: string }[], workflow) =>
+            all.concat(
+              workflow.references.map((reference) => ({
+                file: workflow.path,
+                line: reference.line,
+                path: reference.path,
+                kind: reference.kind,
+              }))
+            ),
+          []
+        )
+      );
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async fixReferencesToOldBranch(): Promise<void> {
+    if (!this.fixReferences) return;
+    const msg = `Checking to see if any references to ${this.oldBranchName} can be updated automatically`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      // Applying a plan pushes the changes that were reviewed, rather than changes for what has been found since
+      if (this.plan) {
+        this.referenceChanges = this.plan.changes;
+        this.fixedFiles = this.plan.fixedFiles;
+      } else {
+        this.referenceChanges = await this.findReferenceChanges();
+      }
+      const changes = this.referenceChanges;
+
+      this.report.detail(
+        'updatedFiles',
+        changes.map((change) => change.path)
+      );
+
+      if (!changes.length) {
+        this.logger.log('No references can be updated automatically');
+        spinner.succeed();
+        return;
+      }
+
+      this.logger.log(
+        `${changes.length} ${changes.length === 1 ? 'file' : 'files'} can be updated. Opening a pull request.`
+      );
+      if (this.execute) {
+        this.referencesPullRequest = await this.openPullRequest(
+          `Update references to ${this.oldBranchName}`,
+          `The ${this.oldBranchName} branch of this repository has been migrated to ${
+            this.newBranchName
+          } using the [master-to-main](https://github.com/guardian/master-to-main) tool.
+
+This pull request updates references to ${this.oldBranchName} in the following files:
+
+${changes.map((change) => `- ${change.path}`).join('\n')}
+`,
+          changes
+        );
+        this.report.detail('pullRequest', this.referencesPullRequest);
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async checkReferencesToOldBranch(): Promise<void> {
+    const msg = `Checking to see if any files reference ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const files = await this.findReferences();
+      this.referenceFiles = files.map((file) => file.path);
+      this.report.detail('filesReferencingOldBranch', files.length);
+
+      // Files fully updated by the references pull request don't need checking by hand
+      const items = files.filter((item) => !this.fixedFiles.includes(item.path));
+      const workflows = this.workflows.filter((workflow) => !this.fixedFiles.includes(workflow.path));
+      const count = new Set([...items, ...workflows].map((file) => file.path)).size;
+
+      if (!count) {
+        this.logger.log(files.length ? 'All references have been updated' : 'No references found');
+        spinner.succeed();
+        return;
+      }
+
+      if (!this.issues) {
+        this.logger.log(`${count} ${count === 1 ? 'file' : 'files'} found.`);
+        spinner.succeed();
+        return;
+      }
+
+      this.logger.log(`${count} ${count === 1 ? 'file' : 'files'} found. Opening an issue.`);
+
+      const list = formatMatches(items, this.blobUrl);
+      const workflowList = formatWorkflowReferences(workflows, this.blobUrl);
+      // The pull request is only opened when executing, so a plan has a placeholder that is filled in when applying it
+      const pullRequest =
+        this.referencesPullRequest ?? (!this.execute && this.referenceChanges.length ? '{{pullRequest}}' : '');
+
+      await this.openIssue(
+        'references',
+        this.issueTitles.references,
+        `The ${this.oldBranchName} branch of this repository has been migrated to ${
+          this.newBranchName
+        } using the [master-to-main](https://github.com/guardian/master-to-main) tool.
+
+  Some files in the repository contain the word ${
+    this.oldBranchName
+  }. Please check the following files and update where required:
+
+  ${list}
+  ${
+    workflowList
+      ? `\n  The following settings in GitHub Actions workflows refer to ${this.oldBranchName}:\n\n${workflowList}\n`
+      : ''
+  }
+  ${pullRequest ? `\n  Other references have been updated automatically in ${pullRequest}.` : ''}
+          `,
+        { files: list, workflows: workflowList, pullRequest }
+      );
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async openOtherConfigurationIssue(): Promise<void> {
+    if (!this.issues) {
+      return;
+    }
+
+    const msg = `Opening issue regarding other configuration`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const audit = this.integrations ?? (await this.auditIntegrations());
+      const items = this.plugins
+        .reduce((all: string[], plugin) => all.concat(plugin.issueItems ? plugin.issueItems(this) : []), [])
+        .concat(integrationItems(audit, this.oldBranchName, this.newBranchName));
+
+      const list = items.map((item) => `  - [ ] ${item}`).join('\n');
+
+      await this.openIssue(
+        'otherConfiguration',
+        this.issueTitles.otherConfiguration,
+        `The ${this.oldBranchName} branch of this repository has been migrated to ${
+          this.newBranchName
+        } using the [master-to-main](https://github.com/guardian/master-to-main) tool.
+
+  Please check any build related configuration and update as required${items.length ? ':' : '.'}
+          ${
+            items.length
+              ? `
+${list}
+          `
+              : ''
+          }
 
   It's probably a good idea to merge test PR to ${
     this.newBranchName
   } once this is complete, to make sure that everything is working as expected. :slightly_smiling_face:
           `,
-        });
-      }
+        { items: list }
+      );
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  /* Open a single issue with a section for each of the issues that would otherwise have been opened */
+
+  async openTrackingIssue(): Promise<void> {
+    if (!this.issues || !this.trackingIssue) {
+      return;
+    }
+
+    const msg = `Opening the tracking issue`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      // Sections from steps completed before resuming are only in the journal
+      const followUps = this.execute ? this.journal.get(this.journalKey)?.followUps ?? this.followUps : this.followUps;
+      const sections = followUps.map((followUp) => `### ${followUp.title}\n\n${followUp.body.trim()}`).join('\n\n');
+
+      await this.openIssue(
+        'tracking',
+        this.issueTitles.tracking,
+        `The ${this.oldBranchName} branch of this repository has been migrated to ${
+          this.newBranchName
+        } using the [master-to-main](https://github.com/guardian/master-to-main) tool. The follow-up work is listed below.
+
+${sections || 'There is no follow-up work.'}
+`,
+        { sections }
+      );
 
       spinner.succeed();
     } catch (err) {
@@ -427,6 +1312,724 @@ For each deployment, you will need to complete the following steps:
       throw err;
     }
   }
+
+  /* Helpers */
+
+  get templateVariables(): Record<string, string> {
+    return {
+      owner: this.owner,
+      repo: this.repo,
+      from: this.oldBranchName,
+      to: this.newBranchName,
+      repoUrl: `${webUrl(this.apiUrl)}/${this.owner}/${this.repo}`,
+    };
+  }
+
+  /* The open pull requests to a branch, including those from forks */
+
+  async getOpenPullRequests(base: string): Promise<PullRequest[]> {
+    const prs = await this.octokit.paginate('GET /repos/{owner}/{repo}/pulls', {
+      owner: this.owner,
+      repo: this.repo,
+      base,
+      state: 'open',
+      per_page: 100,
+    });
+
+    return prs.map((pr) => ({
+      number: pr.number,
+      title: pr.title,
+      author: pr.user?.login ?? 'ghost',
+      createdAt: pr.created_at,
+      url: pr.html_url,
+      fork: pr.head.repo?.full_name !== `${this.owner}/${this.repo}`,
+    }));
+  }
+
+  /* How long ago a date was, in days, months or years */
+
+  age(date: string): string {
+    const days = Math.floor((Date.now() - Date.parse(date)) / (24 * 60 * 60 * 1000));
+    const plural = (value: number, unit: string): string => `${value} ${unit}${value === 1 ? '' : 's'}`;
+
+    if (days >= 365) return plural(Math.floor(days / 365), 'year');
+    if (days >= 30) return plural(Math.floor(days / 30), 'month');
+    return plural(days, 'day');
+  }
+
+  /* The protection of a branch, or undefined if it isn't protected */
+
+  async getProtection(branch: string): Promise<ProtectionSummary | undefined> {
+    try {
+      const protection = await this.octokit.repos.getBranchProtection({
+        owner: this.owner,
+        repo: this.repo,
+        branch,
+      });
+      return summariseProtection(protection.data);
+    } catch (err) {
+      // Branch protection isn't available for private repositories on free plans
+      if (err.status === 404 || err.status === 403) return;
+      throw err;
+    }
+  }
+
+  /* The rulesets of the repository, including those of the organisation, with the conditions of each */
+
+  async getRulesets(): Promise<Ruleset[]> {
+    let rulesets: { id: number }[];
+    try {
+      rulesets = await this.octokit.paginate('GET /repos/{owner}/{repo}/rulesets', {
+        owner: this.owner,
+        repo: this.repo,
+        includes_parents: true,
+        per_page: 100,
+      });
+    } catch (err) {
+      // Older versions of GitHub Enterprise Server don't support rulesets
+      if (err.status === 404 || err.status === 403) return [];
+      throw err;
+    }
+
+    const detailed: Ruleset[] = [];
+    for (const { id } of rulesets) {
+      const ruleset = await this.octokit.repos.getRepoRuleset({
+        owner: this.owner,
+        repo: this.repo,
+        ruleset_id: id,
+        includes_parents: true,
+      });
+      detailed.push(ruleset.data);
+    }
+    return detailed;
+  }
+
+  /* The changes to branch protection and rulesets that the user is asked to confirm */
+
+  protectionPrompt(): string[] {
+    if (this.protection === undefined) return [];
+
+    const verb = this.execute ? 'will' : 'would';
+    const lines = [describeProtection(this.oldBranchName, this.protection ?? undefined)];
+    for (const { ruleset, change } of this.rulesetChanges) {
+      switch (change) {
+        case 'update':
+          lines.push(`The ${ruleset.name} ruleset names ${this.oldBranchName} and ${verb} be updated.`);
+          break;
+        case 'organisation':
+          lines.push(
+            chalk.bgYellow.black(
+              `The ${ruleset.name} ruleset of the ${ruleset.source} organisation names ${this.oldBranchName} and must be updated in the organisation settings.`
+            )
+          );
+          break;
+        case 'lost':
+          lines.push(
+            chalk.bgYellow.black(
+              `The ${ruleset.name} ruleset applies to ${this.oldBranchName} but ${verb} not apply to ${this.newBranchName}.`
+            )
+          );
+          break;
+      }
+    }
+    return lines;
+  }
+
+  get wikiUrl(): string {
+    return `${webUrl(this.apiUrl)}/${this.owner}/${this.repo}.wiki.git`;
+  }
+
+  /* The branches of the wiki, which is left alone when replaying as the requests git makes aren't recorded */
+
+  async getWikiBranches(): Promise<string[] | undefined> {
+    if (!this.hasWiki || this.recording?.replaying) return undefined;
+    return listWikiBranches(this.wikiUrl, await getToken(this.credentials));
+  }
+
+  /* The state of the repository that a plan depends on */
+
+  async getState(): Promise<RepositoryState> {
+    const repo = await this.octokit.repos.get({ owner: this.owner, repo: this.repo });
+    const head = async (branch: string): Promise<string> => {
+      try {
+        const ref = await this.octokit.repos.getBranch({ owner: this.owner, repo: this.repo, branch });
+        return ref.data.commit.sha;
+      } catch (err) {
+        if (err.status === 404) return '';
+        throw err;
+      }
+    };
+
+    return {
+      defaultBranch: repo.data.default_branch,
+      oldBranchSha: await head(this.oldBranchName),
+      newBranchExists: !!(await head(this.newBranchName)),
+      pullRequests: (await this.getOpenPullRequests(this.oldBranchName)).map((pr) => pr.number).sort((a, b) => a - b),
+      protection: (await this.getProtection(this.oldBranchName)) ?? null,
+    };
+  }
+
+  async writePlan(file: string): Promise<void> {
+    const plan: Plan = {
+      version: planVersion,
+      createdAt: new Date().toISOString(),
+      repository: `${this.owner}/${this.repo}`,
+      apiUrl: this.apiUrl,
+      from: this.oldBranchName,
+      to: this.newBranchName,
+      options: this.planOptions ?? {
+        issues: this.issues,
+        fixReferences: this.fixReferences,
+        prComments: this.prComments,
+        scanTree: this.scanTree,
+        trackingIssue: this.trackingIssue,
+        projectStatus: this.projectStatus,
+        guardian: false,
+        plugins: [],
+      },
+      state: await this.getState(),
+      changes: this.referenceChanges,
+      fixedFiles: this.fixedFiles,
+      pullRequests: (this.pullRequests ?? []).map(({ number, title, url }) => ({ number, title, url })),
+      files: this.referenceFiles,
+      workflows: this.workflows.map((workflow) => workflow.path),
+      issues: this.plannedIssues,
+    };
+    writePlan(file, plan);
+  }
+
+  /* The journal entry for the migration, which is per branch when renaming several branches */
+
+  get journalKey(): string {
+    const repository = `${this.owner}/${this.repo}`;
+    return this.mappings.length > 1 ? `${repository}:${this.oldBranchName}` : repository;
+  }
+
+  get blobUrl(): string {
+    return `${webUrl(this.apiUrl)}/${this.owner}/${this.repo}/blob/${this.newBranchName}`;
+  }
+
+  /* Find files in the branch, which has only been renamed when executing */
+
+  findFiles(options: { term?: string; filename?: string }): Promise<FileMatch[]> {
+    return findFiles(this.octokit, this.logger, {
+      owner: this.owner,
+      repo: this.repo,
+      ref: this.execute ? this.newBranchName : this.oldBranchName,
+      // Code search only covers the default branch
+      scanTree: this.scanTree || (!!this.defaultBranch && this.defaultBranch !== this.oldBranchName),
+      ...options,
+    });
+  }
+
+  /* The changes that update well known references to the old branch, noting the files they update fully */
+
+  async findReferenceChanges(): Promise<FileChange[]> {
+    const files = await this.findReferences();
+
+    // The branch has only been renamed when executing
+    const ref = this.execute ? this.newBranchName : this.oldBranchName;
+
+    const changes: FileChange[] = [];
+
+    // Workflows are updated using the references found by parsing them, which cover more than branch filters
+    for (const workflow of this.workflows) {
+      const fixed = fixWorkflowReferences(workflow.content, workflow.references);
+      const result = rewriteReferences(workflow.path, fixed, this.oldBranchName, this.newBranchName);
+      if (result.content === workflow.content) continue;
+
+      changes.push({ path: workflow.path, content: result.content });
+      if (!result.remaining) this.fixedFiles.push(workflow.path);
+    }
+
+    for (const item of files) {
+      if (this.workflows.some((workflow) => workflow.path === item.path)) continue;
+
+      const file = await this.octokit.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path: item.path,
+        ref,
+      });
+      if (Array.isArray(file.data) || file.data.type !== 'file' || !('content' in file.data)) continue;
+
+      const content = Buffer.from(file.data.content, 'base64').toString('utf8');
+      const result = rewriteReferences(item.path, content, this.oldBranchName, this.newBranchName);
+
+      if (result.changed) changes.push({ path: item.path, content: result.content });
+      if (result.changed && !result.remaining) this.fixedFiles.push(item.path);
+    }
+    return changes;
+  }
+
+  async findReferences(): Promise<FileMatch[]> {
+    if (!this.referenceMatches) this.referenceMatches = await this.findFiles({ term: this.oldBranchName });
+    return this.referenceMatches;
+  }
+
+  /*
+   * The settings of the repository that can depend on the branch. Each of them needs extra permissions, or isn't
+   * available on every plan, so any that can't be read are left out.
+   */
+  async auditIntegrations(): Promise<IntegrationAudit> {
+    // Missing or forbidden settings are left out
+    const optional = async <T>(request: () => Promise<T>): Promise<T | undefined> => {
+      try {
+        return await request();
+      } catch (err) {
+        if (err.status === 403 || err.status === 404) {
+          this.logger.debug(`Skipping ${err.request?.url ?? 'a request'} - ${err.message}`);
+          return undefined;
+        }
+        throw err;
+      }
+    };
+    const params = { owner: this.owner, repo: this.repo, per_page: 100 };
+
+    const webhooks = (await optional(() => this.octokit.paginate('GET /repos/{owner}/{repo}/hooks', params))) ?? [];
+
+    const pages = await optional(async () => {
+      const site = await this.octokit.repos.getPages({ owner: this.owner, repo: this.repo });
+      // Sites built by a workflow aren't published from a branch
+      return site.data.build_type !== 'workflow' && site.data.source ? site.data.source : undefined;
+    });
+
+    const environments = [];
+    for (const environment of (await optional(() =>
+      this.octokit.paginate('GET /repos/{owner}/{repo}/environments', params)
+    )) ?? []) {
+      if (!environment.deployment_branch_policy?.custom_branch_policies) continue;
+
+      const policies = await optional(() =>
+        this.octokit.repos.listDeploymentBranchPolicies({ ...params, environment_name: environment.name })
+      );
+      environments.push({
+        name: environment.name,
+        policies: (policies?.data.branch_policies ?? []).map((policy) => ({
+          id: policy.id ?? 0,
+          name: policy.name ?? '',
+        })),
+      });
+    }
+
+    // Apps can only be listed for organisations, and only by organisation admins
+    const apps = await optional(() => this.octokit.orgs.listAppInstallations({ org: this.owner, per_page: 100 }));
+
+    const deployKeys = (await optional(() => this.octokit.paginate('GET /repos/{owner}/{repo}/keys', params))) ?? [];
+
+    this.integrations = {
+      webhooks: webhooks.map((webhook) => ({
+        id: webhook.id,
+        url: webhook.config.url ?? '',
+        events: webhook.events,
+        active: webhook.active,
+      })),
+      pages,
+      environments,
+      apps: (apps?.data.installations ?? []).map((app) => app.app_slug),
+      deployKeys: deployKeys.map((key) => ({ title: key.title, readOnly: key.read_only })),
+    };
+    return this.integrations;
+  }
+
+  /* Update a setting, leaving it to be updated by hand if the token isn't allowed to */
+
+  async updateSetting(name: string, update: () => Promise<unknown>): Promise<void> {
+    try {
+      await update();
+    } catch (err) {
+      if (err.status !== 403) throw err;
+      this.logger.warn(`Unable to update the ${name} - ${err.message}. It needs to be updated by hand`);
+    }
+  }
+
+  /* The workflow files in the branch, which has only been renamed when executing */
+
+  async readWorkflows(): Promise<{ path: string; content: string }[]> {
+    const ref = this.execute ? this.newBranchName : this.oldBranchName;
+
+    let entries;
+    try {
+      entries = await this.octokit.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path: '.github/workflows',
+        ref,
+      });
+    } catch (err) {
+      if (err.status === 404) return [];
+      throw err;
+    }
+    if (!Array.isArray(entries.data)) return [];
+
+    const workflows: { path: string; content: string }[] = [];
+    for (const entry of entries.data) {
+      if (entry.type !== 'file' || !/\.ya?ml$/.test(entry.name)) continue;
+
+      const file = await this.octokit.repos.getContent({
+        owner: this.owner,
+        repo: this.repo,
+        path: entry.path,
+        ref,
+      });
+      if (Array.isArray(file.data) || !('content' in file.data)) continue;
+
+      workflows.push({ path: entry.path, content: Buffer.from(file.data.content, 'base64').toString('utf8') });
+    }
+    return workflows;
+  }
+
+  /* The title of an issue, using the title from the config file if it has been overridden */
+
+  issueTitle(key: string, title: string): string {
+    const template = this.issueTemplates[key];
+    return template && template.title ? renderTemplate(template.title, this.templateVariables) : title;
+  }
+
+  /*
+   * Open an issue, using any template for it in the config file. The variables can be used as placeholders in the
+   * template, along with the owner, repo, from and to placeholders. An open issue with the same title from a previous
+   * run is updated instead, so running the migration again doesn't open duplicate issues.
+   */
+  async openIssue(key: string, title: string, body: string, variables: Record<string, string> = {}): Promise<void> {
+    const template = this.issueTemplates[key] ?? {};
+    title = this.issueTitle(key, title);
+    body = template.body ? renderTemplate(template.body, { ...this.templateVariables, ...variables }) : body;
+
+    if (this.trackingIssue && key !== 'tracking') {
+      const followUp = { key, title, body };
+      this.followUps = [...this.followUps.filter((other) => other.key !== key), followUp];
+      if (this.execute) this.journal.recordFollowUp(this.journalKey, followUp);
+      return;
+    }
+
+    // Applying a plan opens the issues that were reviewed, rather than issues for what has been found since
+    if (this.plan) {
+      const planned = this.plan.issues.find((issue) => issue.key === key);
+      if (!planned) {
+        this.logger.warn(`The ${title} issue isn't in the plan, so it hasn't been opened`);
+        return;
+      }
+      title = planned.title;
+      body = renderTemplate(planned.body, variables);
+    }
+
+    const existing = await this.findIssue(title);
+
+    if (!this.execute) {
+      this.plannedIssues.push({ key, title, body });
+      if (existing) {
+        this.logger.log(`Would update issue #${existing.number} ${title}`);
+      }
+      if (this.project) {
+        this.logger.log(`Would add ${title} to the ${this.project.title} project`);
+      }
+      this.report.issue(title, existing?.html_url);
+      return;
+    }
+
+    await this.ensureLabel();
+    const assignees = await this.getIssueAssignees();
+
+    if (existing) {
+      // Keep the items that have already been ticked off
+      await this.octokit.issues.update({
+        owner: this.owner,
+        repo: this.repo,
+        issue_number: existing.number,
+        body: keepTickedItems(existing.body ?? '', body),
+      });
+      // Adding assignees keeps anyone who has picked up the issue since it was opened
+      if (assignees.length) {
+        await this.octokit.issues.addAssignees({
+          owner: this.owner,
+          repo: this.repo,
+          issue_number: existing.number,
+          assignees,
+        });
+      }
+      this.logger.log(`Updated issue #${existing.number} ${title}`);
+      this.report.issue(title, existing.html_url);
+      if (this.project) await addToProject(this.octokit, this.project, existing.node_id);
+      return;
+    }
+
+    const issue = await this.octokit.issues.create({
+      owner: this.owner,
+      repo: this.repo,
+      title,
+      labels: [migrationLabel.name, ...(template.labels ?? [])],
+      assignees,
+      body,
+    });
+    this.report.issue(issue.data.title, issue.data.html_url);
+
+    // Only new issues are given a status, so that a status changed on the board is kept when running again
+    if (this.project) {
+      const item = await addToProject(this.octokit, this.project, issue.data.node_id);
+      await setProjectStatus(this.octokit, this.project, item, this.projectStatus);
+    }
+  }
+
+  /* An open issue with the migration label and this title, opened by a previous run */
+
+  async findIssue(
+    title: string
+  ): Promise<{ number: number; node_id: string; html_url: string; body?: string | null } | undefined> {
+    try {
+      const issues = await this.octokit.paginate('GET /repos/{owner}/{repo}/issues', {
+        owner: this.owner,
+        repo: this.repo,
+        labels: migrationLabel.name,
+        state: 'open',
+        per_page: 100,
+      });
+      return issues.find((issue) => !issue.pull_request && issue.title === title);
+    } catch (err) {
+      // Repositories with issues disabled respond with 410 Gone
+      if (err.status === 410) return undefined;
+      throw err;
+    }
+  }
+
+  /*
+   * Create the migration label, or give it a colour and description if it was created without them, such as by an
+   * earlier version of this tool
+   */
+  async ensureLabel(): Promise<void> {
+    if (this.labelChecked) return;
+
+    try {
+      const label = await this.octokit.issues.getLabel({
+        owner: this.owner,
+        repo: this.repo,
+        name: migrationLabel.name,
+      });
+      if (!label.data.description) {
+        await this.octokit.issues.updateLabel({ owner: this.owner, repo: this.repo, ...migrationLabel });
+      }
+    } catch (err) {
+      if (err.status !== 404) throw err;
+      await this.octokit.issues.createLabel({ owner: this.owner, repo: this.repo, ...migrationLabel });
+    }
+    this.labelChecked = true;
+  }
+
+  /*
+   * The users to assign the issues to. `@me` is the authenticated user. Issues can't be assigned to teams, so the
+   * members of the team are assigned instead, up to the limit of 10 assignees.
+   */
+  async getIssueAssignees(): Promise<string[]> {
+    if (this.issueAssignees) return this.issueAssignees;
+
+    const assignees: string[] = [];
+    if (this.assignee === '@me') {
+      if (isAppAuth(this.credentials)) {
+        throw new Error('Issues can only be assigned to @me when authenticating with a token');
+      }
+      const user = await this.octokit.users.getAuthenticated();
+      assignees.push(user.data.login);
+    } else if (this.assignee) {
+      assignees.push(this.assignee);
+    }
+
+    if (this.assignTeam) {
+      const members = await this.octokit.paginate('GET /orgs/{org}/teams/{team_slug}/members', {
+        org: this.owner,
+        team_slug: this.assignTeam,
+        per_page: 100,
+      });
+      assignees.push(...members.map((member) => member.login).filter((login) => !assignees.includes(login)));
+    }
+
+    if (assignees.length > 10) {
+      this.logger.warn(`Issues can only have 10 assignees, so only ${assignees.slice(0, 10).join(', ')} are assigned`);
+    }
+    this.issueAssignees = assignees.slice(0, 10);
+    return this.issueAssignees;
+  }
+
+  /*
+   * Rename a branch. Where the server doesn't support renaming branches, as on older versions of GitHub Enterprise
+   * Server, the branch is copied instead and the default branch and open pull requests are moved across before the
+   * old branch is deleted.
+   */
+  async moveBranch(from: string, to: string): Promise<void> {
+    try {
+      await this.octokit.repos.renameBranch({
+        owner: this.owner,
+        repo: this.repo,
+        branch: from,
+        new_name: to,
+      });
+      return;
+    } catch (err) {
+      if (err.status !== 404) throw err;
+    }
+
+    this.logger.log('Renaming branches is not supported by the server. Copying the branch instead');
+
+    const ref = await this.octokit.git.getRef({
+      owner: this.owner,
+      repo: this.repo,
+      ref: `heads/${from}`,
+    });
+    await this.octokit.git.createRef({
+      owner: this.owner,
+      repo: this.repo,
+      ref: `refs/heads/${to}`,
+      sha: ref.data.object.sha,
+    });
+
+    const repo = await this.octokit.repos.get({
+      owner: this.owner,
+      repo: this.repo,
+    });
+    if (repo.data.default_branch === from) {
+      this.logger.log(`Setting the default branch to ${to}`);
+      await this.octokit.repos.update({
+        owner: this.owner,
+        repo: this.repo,
+        default_branch: to,
+      });
+    }
+
+    // Pull requests are closed when their base branch is deleted, so they have to be moved first
+    const prs = await this.octokit.paginate('GET /repos/{owner}/{repo}/pulls', {
+      owner: this.owner,
+      repo: this.repo,
+      base: from,
+      state: 'open',
+      per_page: 100,
+    });
+    this.logger.log(`Updating the base branch of ${prs.length} open pull requests`);
+    for (const pr of prs) {
+      await this.octokit.pulls.update({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: pr.number,
+        base: to,
+      });
+    }
+
+    await this.octokit.git.deleteRef({
+      owner: this.owner,
+      repo: this.repo,
+      ref: `heads/${from}`,
+    });
+
+    this.logger.warn(`Branch protection rules for ${from} have not been moved to ${to} and need to be recreated`);
+  }
+
+  /* The branch of the pull request that updates references to the old branch */
+
+  get referencesBranch(): string {
+    return `master-to-main/update-references-to-${this.oldBranchName}`;
+  }
+
+  /*
+   * Commit the changes to the references branch and open a pull request for it. The branch and pull request are left
+   * open by an earlier run, or by a resumed run that failed after pushing the branch, so an existing branch is moved to
+   * the new commit and an open pull request from it is updated rather than opening another.
+   */
+  async openPullRequest(title: string, body: string, changes: { path: string; content: string }[]): Promise<string> {
+    const branch = this.referencesBranch;
+
+    const base = await this.octokit.git.getRef({
+      owner: this.owner,
+      repo: this.repo,
+      ref: `heads/${this.newBranchName}`,
+    });
+    const parent = await this.octokit.git.getCommit({
+      owner: this.owner,
+      repo: this.repo,
+      commit_sha: base.data.object.sha,
+    });
+
+    // Keep the mode of each file, so that executable scripts stay executable
+    const baseTree = await this.octokit.git.getTree({
+      owner: this.owner,
+      repo: this.repo,
+      tree_sha: parent.data.tree.sha,
+      recursive: 'true',
+    });
+    const modes = new Map(baseTree.data.tree.map((entry) => [entry.path, entry.mode]));
+
+    const tree = await this.octokit.git.createTree({
+      owner: this.owner,
+      repo: this.repo,
+      base_tree: parent.data.tree.sha,
+      tree: changes.map((change) => ({
+        path: change.path,
+        mode: (modes.get(change.path) ?? '100644') as '100644' | '100755',
+        type: 'blob' as const,
+        content: change.content,
+      })),
+    });
+    const commit = await this.octokit.git.createCommit({
+      owner: this.owner,
+      repo: this.repo,
+      message: title,
+      tree: tree.data.sha,
+      parents: [parent.data.sha],
+    });
+
+    let exists = true;
+    try {
+      await this.octokit.git.getRef({ owner: this.owner, repo: this.repo, ref: `heads/${branch}` });
+    } catch (err) {
+      if (err.status !== 404) throw err;
+      exists = false;
+    }
+
+    if (exists) {
+      this.logger.log(`Updating the existing ${branch} branch`);
+      await this.octokit.git.updateRef({
+        owner: this.owner,
+        repo: this.repo,
+        ref: `heads/${branch}`,
+        sha: commit.data.sha,
+        force: true,
+      });
+    } else {
+      await this.octokit.git.createRef({
+        owner: this.owner,
+        repo: this.repo,
+        ref: `refs/heads/${branch}`,
+        sha: commit.data.sha,
+      });
+    }
+
+    const [existing] = await this.octokit.paginate('GET /repos/{owner}/{repo}/pulls', {
+      owner: this.owner,
+      repo: this.repo,
+      head: `${this.owner}:${branch}`,
+      state: 'open',
+      per_page: 100,
+    });
+    if (existing) {
+      this.logger.log(`Updating the existing pull request #${existing.number}`);
+      await this.octokit.pulls.update({
+        owner: this.owner,
+        repo: this.repo,
+        pull_number: existing.number,
+        title,
+        body,
+      });
+      return existing.html_url;
+    }
+
+    const pr = await this.octokit.pulls.create({
+      owner: this.owner,
+      repo: this.repo,
+      title,
+      body,
+      head: branch,
+      base: this.newBranchName,
+    });
+
+    return pr.data.html_url;
+  }
 }
 
 export default GitHub;
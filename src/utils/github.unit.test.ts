@@ -0,0 +1,566 @@
+import GitHub from './github';
+import Journal from './journal';
+import { Plan, planVersion } from './plan';
+import { Interaction } from './recording';
+import { collectingLogger, interaction, MigrationFlags, notFound, replayFlags } from './replay.test-helper';
+import childProcess from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/*
+ * Runs whole migrations of guardian/test offline, replaying the responses GitHub gives to a repository with one open
+ * pull request and a README that refers to master
+ */
+describe('The GitHub class', () => {
+  let dir: string;
+  let messages: string[];
+
+  const readme = Buffer.from('# Test\n\nPull requests should target master.\n').toString('base64');
+
+  const integrations = [
+    interaction('GET', '/repos/guardian/test/hooks?per_page=100', 200, []),
+    interaction('GET', '/repos/guardian/test/pages', 404, notFound),
+    interaction('GET', '/repos/guardian/test/environments?per_page=100', 200, { total_count: 0, environments: [] }),
+    interaction('GET', '/orgs/guardian/installations?per_page=100', 403, { message: 'Forbidden' }),
+    interaction('GET', '/repos/guardian/test/keys?per_page=100', 200, []),
+  ];
+
+  // The requests made by the checks before a branch is renamed
+  const branchChecks = (from: string, to: string): Interaction[] => [
+    interaction('GET', '/repos/guardian/test', 200, { default_branch: 'master', private: false, has_wiki: false }),
+    interaction('GET', `/repos/guardian/test/branches/${from}`, 200, { name: from, commit: { sha: 'abc123' } }),
+    interaction('GET', `/repos/guardian/test/branches/${to}`, 404, { message: 'Branch not found' }),
+    interaction('GET', '/user', 200, { login: 'octocat' }),
+    interaction('GET', '/repos/guardian/test/collaborators/octocat/permission', 200, { permission: 'admin' }),
+    interaction('GET', `/repos/guardian/test/branches/${from}/protection`, 404, { message: 'Branch not protected' }),
+    interaction('GET', '/repos/guardian/test/rulesets?includes_parents=true&per_page=100', 200, []),
+    interaction('GET', `/repos/guardian/test/pulls?base=${from}&state=open&per_page=100`, 200, [
+      {
+        number: 7,
+        title: 'Add a feature',
+        html_url: 'https://github.com/guardian/test/pull/7',
+        user: { login: 'octocat' },
+        created_at: '2020-10-01T00:00:00Z',
+        head: { repo: { full_name: 'guardian/test' } },
+      },
+    ]),
+    ...integrations,
+  ];
+
+  const checks = branchChecks('master', 'main');
+
+  const references = (ref: string): Interaction[] => [
+    interaction('GET', `/repos/guardian/test/contents/.github%2Fworkflows?ref=${ref}`, 404, notFound),
+    interaction('GET', '/search/code?q=repo%3Aguardian%2Ftest%20master&per_page=100', 200, {
+      total_count: 1,
+      incomplete_results: false,
+      items: [{ path: 'README.md', sha: 'f00d', html_url: 'https://github.com/guardian/test/blob/master/README.md' }],
+    }),
+    interaction('GET', '/repos/guardian/test/git/blobs/f00d', 200, {
+      sha: 'f00d',
+      encoding: 'base64',
+      content: readme,
+    }),
+  ];
+
+  const migrate = async (
+    execute: boolean,
+    interactions: Interaction[],
+    flags: Partial<MigrationFlags> = {}
+  ): Promise<GitHub> => {
+    const gh = new GitHub(
+      'guardian',
+      'test',
+      'token',
+      collectingLogger(messages),
+      replayFlags(dir, interactions, { execute, issues: true, ...flags })
+    );
+    await gh.run();
+    return gh;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-github-'));
+    messages = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('completes a dry run without making changes', async () => {
+    const gh = await migrate(false, [
+      ...checks,
+      interaction('GET', '/repos/guardian/test/pages', 404, notFound),
+      ...references('master'),
+      interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, []),
+      interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, []),
+    ]);
+
+    const report = gh.report.toJSON();
+    expect(report.error).toBeUndefined();
+    expect(report.success).toBe(true);
+    expect(report.steps.every((step) => step.status === 'succeeded' && step.dryRun)).toBe(true);
+    expect(gh.referenceFiles).toEqual(['README.md']);
+    expect(gh.plannedIssues[0]).toMatchObject({
+      key: 'references',
+      title: 'Check references to master after renaming it to main',
+    });
+    expect(fs.existsSync(path.join(dir, 'journal.json'))).toBe(false);
+  });
+
+  test('searches for references to the old branch once when fixing and checking them', async () => {
+    const gh = await migrate(
+      false,
+      [
+        ...checks,
+        interaction('GET', '/repos/guardian/test/pages', 404, notFound),
+        ...references('master'),
+        interaction('GET', '/repos/guardian/test/contents/README.md?ref=master', 200, {
+          type: 'file',
+          path: 'README.md',
+          content: Buffer.from('# Test\n\n![Build](https://example.com/badge.svg?branch=master)\n').toString('base64'),
+        }),
+        interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, []),
+        interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, []),
+      ],
+      { fixReferences: true }
+    );
+
+    const report = gh.report.toJSON();
+    expect(report.error).toBeUndefined();
+    expect(report.steps.find((step) => step.name === 'fixReferencesToOldBranch')?.details).toEqual({
+      updatedFiles: ['README.md'],
+    });
+    expect(gh.referenceFiles).toEqual(['README.md']);
+  });
+
+  test('leaves a placeholder for the link to the references pull request when planning', async () => {
+    const content = '# Test\n\n![Build](https://example.com/badge.svg?branch=master)\n\nTarget master.\n';
+    const gh = await migrate(
+      false,
+      [
+        ...checks,
+        interaction('GET', '/repos/guardian/test/pages', 404, notFound),
+        ...references('master'),
+        interaction('GET', '/repos/guardian/test/contents/README.md?ref=master', 200, {
+          type: 'file',
+          path: 'README.md',
+          content: Buffer.from(content).toString('base64'),
+        }),
+        interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, []),
+        interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, []),
+      ],
+      { fixReferences: true }
+    );
+
+    expect(gh.referenceChanges.map((change) => change.path)).toEqual(['README.md']);
+    expect(gh.plannedIssues[0].body).toContain('Other references have been updated automatically in {{pullRequest}}.');
+  });
+
+  test('opens the issues in a plan with the link to the references pull request filled in', async () => {
+    const issue = { key: 'references', title: 'Check references', body: 'Updated in {{pullRequest}}.' };
+    const plan: Plan = {
+      version: planVersion,
+      createdAt: '2020-10-01T00:00:00Z',
+      repository: 'guardian/test',
+      apiUrl: 'https://api.github.com',
+      from: 'master',
+      to: 'main',
+      options: {
+        issues: true,
+        fixReferences: true,
+        prComments: false,
+        scanTree: false,
+        trackingIssue: false,
+        projectStatus: 'Todo',
+        guardian: false,
+        plugins: [],
+      },
+      state: {
+        defaultBranch: 'master',
+        oldBranchSha: 'abc123',
+        newBranchExists: false,
+        pullRequests: [],
+        protection: null,
+      },
+      changes: [],
+      fixedFiles: [],
+      pullRequests: [],
+      files: ['README.md'],
+      workflows: [],
+      issues: [issue],
+    };
+    const gh = new GitHub(
+      'guardian',
+      'test',
+      'token',
+      collectingLogger(messages),
+      replayFlags(
+        dir,
+        [
+          interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, []),
+          interaction('GET', '/repos/guardian/test/labels/master-to-main', 404, notFound),
+          interaction('POST', '/repos/guardian/test/labels', 201, { name: 'master-to-main' }),
+          interaction('POST', '/repos/guardian/test/issues', 201, { number: 12, title: 'Check references' }),
+        ],
+        { execute: true, applyPlan: plan }
+      )
+    );
+    const requests: Record<string, unknown>[] = [];
+    gh.octokit.hook.before('request', (options) => {
+      requests.push(options);
+    });
+
+    await gh.openIssue('references', 'Check references to master', 'Found since the plan was made', {
+      pullRequest: 'https://github.com/guardian/test/pull/21',
+    });
+
+    expect(
+      requests.find((request) => request.method === 'POST' && request.url === '/repos/{owner}/{repo}/issues')
+    ).toMatchObject({
+      title: 'Check references',
+      body: 'Updated in https://github.com/guardian/test/pull/21.',
+    });
+  });
+
+  test('leaves the wiki alone when replaying, as git requests are not recorded', async () => {
+    const spawnSync = jest.spyOn(childProcess, 'spawnSync');
+    const gh = await migrate(false, [
+      interaction('GET', '/repos/guardian/test', 200, { default_branch: 'master', private: false, has_wiki: true }),
+      ...checks.slice(1),
+      interaction('GET', '/repos/guardian/test/pages', 404, notFound),
+      ...references('master'),
+      interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, []),
+      interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, []),
+    ]);
+    spawnSync.mockRestore();
+
+    expect(gh.report.toJSON().error).toBeUndefined();
+    expect(spawnSync).not.toHaveBeenCalled();
+    expect(messages).toContain('The wiki is left out when replaying, as git requests are not recorded');
+  });
+
+  test('keeps the issues for each branch renamed in the same repository apart', async () => {
+    const issuesUrl = '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100';
+    const opened = [
+      {
+        number: 13,
+        title: 'Update build configuration after renaming master to main',
+        html_url: 'https://github.com/guardian/test/issues/13',
+      },
+    ];
+    const flags = replayFlags(
+      dir,
+      [
+        ...checks,
+        interaction('GET', '/repos/guardian/test/pages', 404, notFound),
+        ...references('master'),
+        interaction('GET', issuesUrl, 200, opened),
+        interaction('GET', issuesUrl, 200, opened),
+        ...branchChecks('develop', 'dev'),
+        interaction('GET', '/repos/guardian/test/pages', 404, notFound),
+        // Code search only covers the default branch, so the files of develop are scanned instead
+        interaction('GET', '/repos/guardian/test/contents/.github%2Fworkflows?ref=develop', 404, notFound),
+        interaction('GET', '/repos/guardian/test/git/trees/develop?recursive=true', 200, { tree: [] }),
+        interaction('GET', issuesUrl, 200, opened),
+      ],
+      { issues: true }
+    );
+
+    // The same as `--branches master:main,develop:dev`
+    const runs = [];
+    for (const [from, to] of [
+      ['master', 'main'],
+      ['develop', 'dev'],
+    ]) {
+      const gh = new GitHub('guardian', 'test', 'token', collectingLogger(messages), { ...flags, from, to });
+      await gh.run();
+      runs.push(gh);
+    }
+
+    expect(runs.map((gh) => gh.plannedIssues.map((issue) => issue.title))).toEqual([
+      [
+        'Check references to master after renaming it to main',
+        'Update build configuration after renaming master to main',
+      ],
+      ['Update build configuration after renaming develop to dev'],
+    ]);
+    expect(messages.filter((message) => message.startsWith('Would update issue'))).toEqual([
+      'Would update issue #13 Update build configuration after renaming master to main',
+    ]);
+  });
+
+  test('renames the branch, retargets pull requests and opens issues when executed', async () => {
+    const issuesUrl = '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100';
+    const gh = await migrate(true, [
+      ...checks,
+      interaction('POST', '/repos/guardian/test/branches/master/rename', 201, { name: 'main' }, { new_name: 'main' }),
+      interaction('GET', '/repos/guardian/test/rulesets?includes_parents=true&per_page=100', 200, []),
+      interaction('GET', '/repos/guardian/test/branches/main/protection', 404, { message: 'Branch not protected' }),
+      interaction('GET', '/repos/guardian/test/pulls?base=master&state=open&per_page=100', 200, []),
+      interaction('GET', '/repos/guardian/test/pulls/7', 200, { number: 7, state: 'open', base: { ref: 'master' } }),
+      interaction('PATCH', '/repos/guardian/test/pulls/7', 200, { number: 7, base: { ref: 'main' } }, { base: 'main' }),
+      interaction('GET', '/repos/guardian/test/pages', 404, notFound),
+      ...integrations,
+      ...references('main'),
+      interaction('GET', issuesUrl, 200, []),
+      interaction('GET', '/repos/guardian/test/labels/master-to-main', 404, notFound),
+      interaction('POST', '/repos/guardian/test/labels', 201, { name: 'master-to-main' }),
+      interaction('POST', '/repos/guardian/test/issues', 201, {
+        number: 12,
+        node_id: 'I_12',
+        html_url: 'https://github.com/guardian/test/issues/12',
+      }),
+      interaction('GET', issuesUrl, 200, []),
+      interaction('POST', '/repos/guardian/test/issues', 201, {
+        number: 13,
+        node_id: 'I_13',
+        html_url: 'https://github.com/guardian/test/issues/13',
+      }),
+    ]);
+
+    const report = gh.report.toJSON();
+    expect(report.error).toBeUndefined();
+    expect(report.success).toBe(true);
+    expect(report.issues.map((issue) => issue.url)).toEqual([
+      'https://github.com/guardian/test/issues/12',
+      'https://github.com/guardian/test/issues/13',
+    ]);
+    expect(report.steps.find((step) => step.name === 'retargetPullRequests')?.details).toMatchObject({
+      retargetedPullRequests: [7],
+    });
+    expect(messages).toContain('\n🎉 Success! 🎉');
+  });
+
+  test('runs the checks that later steps depend on again when resuming', async () => {
+    const journal = new Journal(path.join(dir, 'journal.json'));
+    journal.start('guardian/test', 'master', 'main');
+    journal.recordDefaultBranch('guardian/test', 'master');
+    [
+      'checkRepoExists',
+      'checkOldBranchDoesExist',
+      'checkNewBranchDoesNotExist',
+      'checkBranchMappings',
+      'checkAdmin',
+      'checkBranchProtection',
+      'listOpenPullRequests',
+      'checkIntegrations',
+      'checkProject',
+      'checkWiki',
+      'checkPlan',
+      'checkWithUser',
+      'renameBranch',
+      'verifyBranchProtection',
+      'retargetPullRequests',
+      'updatePages',
+      'updateEnvironments',
+      'renameWikiBranch',
+      'checkWorkflows',
+      'fixReferencesToOldBranch',
+    ].forEach((step) => journal.complete('guardian/test', step));
+
+    const issuesUrl = '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100';
+    const gh = await migrate(
+      true,
+      [
+        // The default branch has already been renamed
+        interaction('GET', '/repos/guardian/test', 200, { default_branch: 'main', private: false, has_wiki: false }),
+        interaction('GET', '/user', 200, { login: 'octocat' }),
+        interaction('GET', '/repos/guardian/test/collaborators/octocat/permission', 200, { permission: 'admin' }),
+        ...references('main'),
+        interaction('GET', issuesUrl, 200, []),
+        interaction('GET', '/repos/guardian/test/labels/master-to-main', 404, notFound),
+        interaction('POST', '/repos/guardian/test/labels', 201, { name: 'master-to-main' }),
+        interaction('POST', '/repos/guardian/test/issues', 201, {
+          number: 12,
+          node_id: 'I_12',
+          html_url: 'https://github.com/guardian/test/issues/12',
+        }),
+        ...integrations,
+        interaction('GET', issuesUrl, 200, []),
+        interaction('POST', '/repos/guardian/test/issues', 201, {
+          number: 13,
+          node_id: 'I_13',
+          html_url: 'https://github.com/guardian/test/issues/13',
+        }),
+      ],
+      { resume: true }
+    );
+
+    const report = gh.report.toJSON();
+    expect(report.error).toBeUndefined();
+    const statuses = Object.fromEntries(report.steps.map((step) => [step.name, step.status]));
+    expect(statuses).toMatchObject({
+      checkRepoExists: 'succeeded',
+      checkOldBranchDoesExist: 'skipped',
+      checkAdmin: 'succeeded',
+      renameBranch: 'skipped',
+      checkWorkflows: 'succeeded',
+      fixReferencesToOldBranch: 'skipped',
+      checkReferencesToOldBranch: 'succeeded',
+    });
+    expect(gh.defaultBranch).toBe('master');
+    expect(gh.privateRepo).toBe(false);
+  });
+
+  test('updates the references branch and pull request left by an earlier run', async () => {
+    const branch = 'master-to-main%2Fupdate-references-to-master';
+    const gh = new GitHub(
+      'guardian',
+      'test',
+      'token',
+      collectingLogger(messages),
+      replayFlags(dir, [
+        interaction('GET', '/repos/guardian/test/git/ref/heads%2Fmain', 200, { object: { sha: 'abc123' } }),
+        interaction('GET', '/repos/guardian/test/git/commits/abc123', 200, { sha: 'abc123', tree: { sha: 'cafe' } }),
+        interaction('GET', '/repos/guardian/test/git/trees/cafe?recursive=true', 200, {
+          tree: [{ path: 'README.md', mode: '100644' }],
+        }),
+        interaction('POST', '/repos/guardian/test/git/trees', 201, { sha: 'beef' }),
+        interaction('POST', '/repos/guardian/test/git/commits', 201, { sha: 'def456' }),
+        interaction('GET', `/repos/guardian/test/git/ref/heads%2F${branch}`, 200, { object: { sha: 'fed987' } }),
+        interaction(
+          'PATCH',
+          `/repos/guardian/test/git/refs/heads%2F${branch}`,
+          200,
+          { object: { sha: 'def456' } },
+          { sha: 'def456', force: true }
+        ),
+        interaction('GET', `/repos/guardian/test/pulls?head=guardian%3A${branch}&state=open&per_page=100`, 200, [
+          { number: 21, html_url: 'https://github.com/guardian/test/pull/21' },
+        ]),
+        interaction('PATCH', '/repos/guardian/test/pulls/21', 200, { number: 21 }),
+      ])
+    );
+
+    const url = await gh.openPullRequest('Update references to master', 'Updates README.md', [
+      { path: 'README.md', content: '# Test\n\nPull requests should target main.\n' },
+    ]);
+
+    expect(url).toBe('https://github.com/guardian/test/pull/21');
+    expect(messages).toContain('Updating the existing pull request #21');
+  });
+
+  describe('open pull requests', () => {
+    const pullsUrl = '/repos/guardian/test/pulls?base=master&state=open&per_page=100';
+
+    const pullRequest = (number: number, author: string, head: string | null): Record<string, unknown> => ({
+      number,
+      title: `Change ${number}`,
+      html_url: `https://github.com/guardian/test/pull/${number}`,
+      user: { login: author },
+      created_at: '2020-10-01T00:00:00Z',
+      head: { repo: head && { full_name: head } },
+    });
+
+    const pullRequests = (
+      interactions: Interaction[],
+      flags: Partial<MigrationFlags> = {}
+    ): { gh: GitHub; requests: Record<string, unknown>[] } => {
+      const gh = new GitHub(
+        'guardian',
+        'test',
+        'token',
+        collectingLogger(messages),
+        replayFlags(dir, interactions, { execute: true, ...flags })
+      );
+      const requests: Record<string, unknown>[] = [];
+      gh.octokit.hook.before('request', (options) => {
+        requests.push(options);
+      });
+      return { gh, requests };
+    };
+
+    test('lists the pull requests on every page, including those from forks', async () => {
+      const firstPage = interaction('GET', pullsUrl, 200, [pullRequest(7, 'octocat', 'guardian/test')]);
+      firstPage.response.headers.link = `<https://api.github.com${pullsUrl}&page=2>; rel="next"`;
+      const { gh } = pullRequests([
+        firstPage,
+        interaction('GET', `${pullsUrl}&page=2`, 200, [
+          pullRequest(8, 'hubot', 'hubot/test'),
+          pullRequest(9, 'ghost', null),
+        ]),
+      ]);
+
+      await gh.listOpenPullRequests();
+
+      expect(gh.pullRequests?.map((pr) => [pr.number, pr.fork])).toEqual([
+        [7, false],
+        [8, true],
+        [9, true],
+      ]);
+      expect(messages).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^#7 Change 7 by octocat, opened .+ ago$/),
+          expect.stringMatching(/^#8 Change 8 by hubot, opened .+ ago from a fork$/),
+        ])
+      );
+    });
+
+    test('retargets pull requests from forks rather than skipping them', async () => {
+      const { gh } = pullRequests([
+        interaction('GET', pullsUrl, 200, [pullRequest(8, 'hubot', 'hubot/test')]),
+        interaction('GET', '/repos/guardian/test/pulls/8', 200, { number: 8, state: 'open', base: { ref: 'master' } }),
+        interaction('PATCH', '/repos/guardian/test/pulls/8', 200, { number: 8, base: { ref: 'main' } }),
+        interaction('GET', '/repos/guardian/test/pulls/9', 200, {
+          number: 9,
+          state: 'closed',
+          base: { ref: 'master' },
+        }),
+      ]);
+      gh.pullRequests = [{ number: 9, title: 'Change 9', author: 'ghost', createdAt: '', url: '', fork: true }];
+
+      await gh.retargetPullRequests();
+
+      expect(messages).toContain('Retargeting #8 from master to main');
+      expect(messages).toContain('1 pull request was retargeted');
+    });
+
+    test('explains the change in a comment on each open pull request', async () => {
+      const { gh, requests } = pullRequests(
+        [
+          interaction('GET', pullsUrl, 200, []),
+          interaction('GET', '/repos/guardian/test/pulls/7', 200, { number: 7, state: 'open', base: { ref: 'main' } }),
+          interaction('POST', '/repos/guardian/test/issues/7/comments', 201, { id: 1 }),
+        ],
+        { prComments: true }
+      );
+      gh.pullRequests = [{ number: 7, title: 'Change 7', author: 'octocat', createdAt: '', url: '', fork: false }];
+
+      await gh.retargetPullRequests();
+
+      expect(requests.find((request) => request.url === '/repos/{owner}/{repo}/issues/{issue_number}/comments')?.body)
+        .toBe(`The master branch of this repository has been migrated to main using the [master-to-main](https://github.com/guardian/master-to-main) tool, so the base branch of this pull request is now main.
+
+If you have a local copy of this branch, you can update it with:
+
+\`\`\`sh
+git fetch origin
+git rebase origin/main
+\`\`\`
+`);
+      expect(messages).toContain('All open pull requests target main');
+    });
+
+    test('only counts the pull requests it would check in a dry run', async () => {
+      const { gh, requests } = pullRequests([], { execute: false, prComments: true });
+      gh.pullRequests = [{ number: 7, title: 'Change 7', author: 'octocat', createdAt: '', url: '', fork: false }];
+
+      await gh.retargetPullRequests();
+
+      expect(requests).toEqual([]);
+      expect(messages).toContain('1 open pull request would be checked and commented on');
+    });
+  });
+
+  test('stops at the first step whose request was not recorded', async () => {
+    const gh = await migrate(true, checks.slice(0, 3));
+
+    const report = gh.report.toJSON();
+    expect(report.success).toBe(false);
+    expect(report.steps.find((step) => step.status === 'failed')?.name).toBe('checkAdmin');
+    expect(report.error).toBe(`The recording at ${dir} has no response to GET https://api.github.com/user`);
+  });
+});
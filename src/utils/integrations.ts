@@ -0,0 +1,74 @@
+import { escapeRegExp } from './search';
+
+/* The integrations of a repository that may depend on the name of its default branch */
+
+export interface Webhook {
+  id: number;
+  url: string;
+  events: string[];
+  active: boolean;
+}
+
+export interface Environment {
+  name: string;
+  // Custom deployment branch policies, which are branch name patterns
+  policies: { id: number; name: string }[];
+}
+
+export interface PagesSite {
+  branch: string;
+  path: string;
+}
+
+export interface DeployKey {
+  title: string;
+  readOnly: boolean;
+}
+
+export interface IntegrationAudit {
+  webhooks: Webhook[];
+  pages?: PagesSite;
+  environments: Environment[];
+  apps: string[];
+  deployKeys: DeployKey[];
+}
+
+/* Whether a webhook URL mentions the branch, such as `?branch=master` or `/master/` */
+
+export const urlReferencesBranch = (url: string, branch: string): boolean =>
+  new RegExp(`[/?&=]${escapeRegExp(branch)}(?=$|[/?&#])`).test(url);
+
+/* The webhook URL without any credentials or query parameters, which often contain secrets */
+
+const redact = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch (err) {
+    return url.replace(/[?#].*$/, '');
+  }
+};
+
+/*
+ * Checklist items for the integrations that can't be updated automatically. Webhooks and apps can filter on the
+ * branch in their own configuration, so all of them are listed, with webhooks whose URLs mention the old branch first.
+ */
+export const integrationItems = (audit: IntegrationAudit, from: string, to: string): string[] => {
+  const webhooks = [...audit.webhooks].sort(
+    (a, b) => Number(urlReferencesBranch(b.url, from)) - Number(urlReferencesBranch(a.url, from))
+  );
+
+  return [
+    ...webhooks.map((webhook) =>
+      urlReferencesBranch(webhook.url, from)
+        ? `**Webhook ${redact(webhook.url)} refers to ${from} in its URL** - update it to ${to}`
+        : `Webhook ${redact(webhook.url)} (${webhook.events.join(
+            ', '
+          )}) - check that the service doesn't filter on ${from}`
+    ),
+    ...audit.apps.map((app) => `GitHub App ${app} - check that its configuration doesn't refer to ${from}`),
+    ...audit.deployKeys
+      .filter((key) => !key.readOnly)
+      .map((key) => `Deploy key ${key.title} - check that anything pushing with it pushes to ${to}`),
+  ];
+};
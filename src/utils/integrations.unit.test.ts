@@ -0,0 +1,32 @@
+import { IntegrationAudit, integrationItems, urlReferencesBranch } from './integrations';
+
+describe('The integration helpers', () => {
+  test('find webhook URLs that mention the branch', () => {
+    expect(urlReferencesBranch('https://ci.example.com/hook?branch=master', 'master')).toBe(true);
+    expect(urlReferencesBranch('https://ci.example.com/build/master/trigger', 'master')).toBe(true);
+    expect(urlReferencesBranch('https://ci.example.com/hook?branch=master-to-main', 'master')).toBe(false);
+    expect(urlReferencesBranch('https://webmaster.example.com/hook', 'master')).toBe(false);
+  });
+
+  test('list the integrations to check, with webhooks that mention the branch first', () => {
+    const audit: IntegrationAudit = {
+      webhooks: [
+        { id: 1, url: 'https://chat.example.com/hook?token=secret', events: ['push'], active: true },
+        { id: 2, url: 'https://ci.example.com/build/master?token=secret', events: ['push'], active: true },
+      ],
+      environments: [],
+      apps: ['snyk'],
+      deployKeys: [
+        { title: 'Deploy', readOnly: false },
+        { title: 'Read only', readOnly: true },
+      ],
+    };
+
+    expect(integrationItems(audit, 'master', 'main')).toEqual([
+      '**Webhook https://ci.example.com/build/master refers to master in its URL** - update it to main',
+      "Webhook https://chat.example.com/hook (push) - check that the service doesn't filter on master",
+      "GitHub App snyk - check that its configuration doesn't refer to master",
+      'Deploy key Deploy - check that anything pushing with it pushes to main',
+    ]);
+  });
+});
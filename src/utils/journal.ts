@@ -0,0 +1,182 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProtectionSummary, RefNameConditions } from './protection';
+
+/* An issue that is added as a section of the tracking issue instead of being opened on its own */
+
+export interface FollowUp {
+  key: string;
+  title: string;
+  body: string;
+}
+
+/* The conditions of a ruleset before they were updated to target the new branch */
+
+export interface RulesetConditions {
+  id: number;
+  name: string;
+  conditions: RefNameConditions;
+}
+
+/* A deployment branch policy of an environment that was renamed to the new branch */
+
+export interface EnvironmentPolicy {
+  environment: string;
+  id: number;
+}
+
+export interface JournalEntry {
+  from: string;
+  to: string;
+  completed: string[];
+  failed?: string;
+  defaultBranch?: string;
+  protection?: ProtectionSummary | null;
+  rulesets?: RulesetConditions[];
+  environments?: EnvironmentPolicy[];
+  // The path the GitHub Pages site was published from when its source was switched to the new branch
+  pagesPath?: string;
+  wikiRenamed?: boolean;
+  protectionRecreated?: boolean;
+  followUps?: FollowUp[];
+  updatedAt: string;
+}
+
+type Entries = Record<string, JournalEntry>;
+
+export const defaultJournalPath = path.join(os.homedir(), '.m2m-journal.json');
+
+/*
+ * Records the steps completed for each repository so that a migration that fails partway through can be resumed.
+ * The file is read and written synchronously on every change so that several migrations can share it safely.
+ */
+class Journal {
+  path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  get(repository: string): JournalEntry | undefined {
+    return this.read()[repository];
+  }
+
+  /* Start a new entry for the repository, discarding any previous record */
+
+  start(repository: string, from: string, to: string): void {
+    this.update(repository, () => ({ from, to, completed: [], updatedAt: new Date().toISOString() }));
+  }
+
+  complete(repository: string, step: string): void {
+    this.update(repository, (entry) => ({
+      ...entry,
+      completed: entry.completed.includes(step) ? entry.completed : [...entry.completed, step],
+      failed: undefined,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  fail(repository: string, step: string): void {
+    this.update(repository, (entry) => ({ ...entry, failed: step, updatedAt: new Date().toISOString() }));
+  }
+
+  /* Record the default branch of the repository before it was migrated, so a rollback can restore it */
+
+  recordDefaultBranch(repository: string, defaultBranch: string): void {
+    this.update(repository, (entry) => ({ ...entry, defaultBranch, updatedAt: new Date().toISOString() }));
+  }
+
+  /* Record the protection of the old branch, so it can be compared with the new branch when resuming */
+
+  recordProtection(repository: string, protection: ProtectionSummary | null): void {
+    this.update(repository, (entry) => ({ ...entry, protection, updatedAt: new Date().toISOString() }));
+  }
+
+  /* Record the conditions of a ruleset before it is updated, so a rollback can restore them */
+
+  recordRuleset(repository: string, ruleset: RulesetConditions): void {
+    this.update(repository, (entry) => ({
+      ...entry,
+      rulesets: [...(entry.rulesets ?? []).filter(({ id }) => id !== ruleset.id), ruleset],
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  /* Record a deployment branch policy before it is renamed, so a rollback can rename it back */
+
+  recordEnvironmentPolicy(repository: string, policy: EnvironmentPolicy): void {
+    this.update(repository, (entry) => ({
+      ...entry,
+      environments: [
+        ...(entry.environments ?? []).filter(
+          ({ environment, id }) => environment !== policy.environment || id !== policy.id
+        ),
+        policy,
+      ],
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  /* Record the path of the GitHub Pages site before its source is switched, so a rollback can switch it back */
+
+  recordPagesPath(repository: string, pagesPath: string): void {
+    this.update(repository, (entry) => ({ ...entry, pagesPath, updatedAt: new Date().toISOString() }));
+  }
+
+  /* Record that the branch of the wiki is about to be renamed, so a rollback can rename it back */
+
+  recordWikiRenamed(repository: string): void {
+    this.update(repository, (entry) => ({ ...entry, wikiRenamed: true, updatedAt: new Date().toISOString() }));
+  }
+
+  /* Record that protection is about to be recreated for the new branch, so a rollback can remove it */
+
+  recordProtectionRecreated(repository: string): void {
+    this.update(repository, (entry) => ({ ...entry, protectionRecreated: true, updatedAt: new Date().toISOString() }));
+  }
+
+  /* Record a section of the tracking issue, so that sections from steps completed before resuming are kept */
+
+  recordFollowUp(repository: string, followUp: FollowUp): void {
+    this.update(repository, (entry) => ({
+      ...entry,
+      followUps: [...(entry.followUps ?? []).filter(({ key }) => key !== followUp.key), followUp],
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  remove(repository: string): void {
+    const entries = this.read();
+    if (!entries[repository]) return;
+
+    delete entries[repository];
+
+    fs.writeFileSync(this.path, JSON.stringify(entries, null, 2));
+  }
+
+  isComplete(repository: string, step: string): boolean {
+    return !!this.get(repository)?.completed.includes(step);
+  }
+
+  read(): Entries {
+    if (!fs.existsSync(this.path)) return {};
+
+    try {
+      return JSON.parse(fs.readFileSync(this.path, 'utf8'));
+    } catch (err) {
+      throw new Error(`Unable to read the journal file at ${this.path} - ${err.message}`);
+    }
+  }
+
+  update(repository: string, fn: (entry: JournalEntry) => JournalEntry): void {
+    const entries = this.read();
+    const entry = entries[repository] ?? { from: '', to: '', completed: [], updatedAt: '' };
+
+    entries[repository] = fn(entry);
+
+    fs.writeFileSync(this.path, JSON.stringify(entries, null, 2));
+  }
+}
+
+export default Journal;
@@ -0,0 +1,115 @@
+import Journal from './journal';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The journal class', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-journal-'));
+    file = path.join(dir, 'journal.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('returns undefined for a repository that has not been recorded', () => {
+    const journal = new Journal(file);
+
+    expect(journal.get('owner/repo')).toBeUndefined();
+  });
+
+  test('records the completed steps for a repository', () => {
+    const journal = new Journal(file);
+
+    journal.start('owner/repo', 'master', 'main');
+    journal.complete('owner/repo', 'checkRepoExists');
+    journal.complete('owner/repo', 'renameBranch');
+
+    expect(journal.get('owner/repo')).toMatchObject({
+      from: 'master',
+      to: 'main',
+      completed: ['checkRepoExists', 'renameBranch'],
+    });
+    expect(journal.isComplete('owner/repo', 'renameBranch')).toBe(true);
+    expect(journal.isComplete('owner/repo', 'checkAdmin')).toBe(false);
+  });
+
+  test('records the step that failed and clears it once the step completes', () => {
+    const journal = new Journal(file);
+
+    journal.start('owner/repo', 'master', 'main');
+    journal.fail('owner/repo', 'checkRiffRaffFile');
+
+    expect(journal.get('owner/repo')?.failed).toBe('checkRiffRaffFile');
+
+    journal.complete('owner/repo', 'checkRiffRaffFile');
+
+    expect(journal.get('owner/repo')?.failed).toBeUndefined();
+  });
+
+  test('discards the previous record when a migration is started again', () => {
+    const journal = new Journal(file);
+
+    journal.start('owner/repo', 'master', 'main');
+    journal.complete('owner/repo', 'checkRepoExists');
+    journal.start('owner/repo', 'master', 'trunk');
+
+    expect(journal.get('owner/repo')).toMatchObject({ to: 'trunk', completed: [] });
+  });
+
+  test('records each section of the tracking issue once', () => {
+    const journal = new Journal(file);
+
+    journal.start('owner/repo', 'master', 'main');
+    journal.recordFollowUp('owner/repo', { key: 'references', title: 'Check references', body: 'First' });
+    journal.recordFollowUp('owner/repo', { key: 'riffraff', title: 'Update riff-raff', body: 'Riff-raff' });
+    journal.recordFollowUp('owner/repo', { key: 'references', title: 'Check references', body: 'Second' });
+
+    expect(journal.get('owner/repo')?.followUps).toEqual([
+      { key: 'riffraff', title: 'Update riff-raff', body: 'Riff-raff' },
+      { key: 'references', title: 'Check references', body: 'Second' },
+    ]);
+  });
+
+  test('records the conditions of each ruleset once', () => {
+    const journal = new Journal(file);
+    const conditions = { ref_name: { include: ['refs/heads/master'], exclude: [] } };
+
+    journal.start('owner/repo', 'master', 'main');
+    journal.recordRuleset('owner/repo', { id: 1, name: 'Protect master', conditions });
+    journal.recordRuleset('owner/repo', { id: 1, name: 'Protect master', conditions });
+
+    expect(journal.get('owner/repo')?.rulesets).toEqual([{ id: 1, name: 'Protect master', conditions }]);
+  });
+
+  test('records each deployment branch policy once', () => {
+    const journal = new Journal(file);
+
+    journal.start('owner/repo', 'master', 'main');
+    journal.recordEnvironmentPolicy('owner/repo', { environment: 'production', id: 5 });
+    journal.recordEnvironmentPolicy('owner/repo', { environment: 'staging', id: 5 });
+    journal.recordEnvironmentPolicy('owner/repo', { environment: 'production', id: 5 });
+
+    expect(journal.get('owner/repo')?.environments).toEqual([
+      { environment: 'staging', id: 5 },
+      { environment: 'production', id: 5 },
+    ]);
+  });
+
+  test('keeps entries for other repositories written by another instance', () => {
+    new Journal(file).start('owner/one', 'master', 'main');
+    new Journal(file).start('owner/two', 'master', 'main');
+
+    expect(Object.keys(new Journal(file).read())).toEqual(['owner/one', 'owner/two']);
+  });
+
+  test('throws an error if the file cannot be parsed', () => {
+    fs.writeFileSync(file, 'not json');
+
+    expect(() => new Journal(file).read()).toThrow(`Unable to read the journal file at ${file}`);
+  });
+});
@@ -0,0 +1,320 @@
+import { spawnSync } from 'child_process';
+import chalk from 'chalk';
+import * as emoji from 'node-emoji';
+import Logger from './logger';
+import { escapeRegExp } from './search';
+import { Step } from './step';
+
+// Local commands should be quick, while those that talk to the remote wait on the network
+const localTimeout = 10000;
+const remoteTimeout = 120000;
+
+export interface Remote {
+  name: string;
+  url: string;
+}
+
+export interface TrackingBranch {
+  branch: string;
+  upstream: string;
+}
+
+/* Parse the output of `git remote -v`, which lists the fetch and push URL of each remote */
+
+export const parseRemotes = (output: string): Remote[] =>
+  output
+    .split('\n')
+    .map((line) => /^(\S+)\s+(\S+)\s+\(fetch\)$/.exec(line.trim()))
+    .reduce((remotes: Remote[], match) => (match ? [...remotes, { name: match[1], url: match[2] }] : remotes), []);
+
+/* Parse the output of `git for-each-ref --format='%(refname:short) %(upstream:short)' refs/heads` */
+
+export const parseTrackingBranches = (output: string): TrackingBranch[] =>
+  output
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/))
+    .reduce(
+      (branches: TrackingBranch[], [branch, upstream]) =>
+        branch && upstream ? [...branches, { branch, upstream }] : branches,
+      []
+    );
+
+/*
+ * Find the remote for a repository. Remotes can use HTTPS or SSH URLs, with or without the `.git` suffix. Without a
+ * repository, the only remote is used, or `origin` if there are several.
+ */
+export const findRemote = (remotes: Remote[], repository?: string): Remote | undefined => {
+  if (repository) {
+    const pattern = new RegExp(`[/:]${escapeRegExp(repository)}(\\.git)?/?$`, 'i');
+    return remotes.find((remote) => pattern.test(remote.url));
+  }
+  return remotes.length === 1 ? remotes[0] : remotes.find((remote) => remote.name === 'origin');
+};
+
+/*
+ * Updates a local copy of a repository once its branch has been renamed on GitHub: fetching the remote, updating
+ * its default branch, renaming the local branch and moving any branches that track the old branch across.
+ */
+class LocalRepository {
+  cwd: string;
+  repository?: string;
+  remoteName?: string;
+
+  newBranchName: string;
+  oldBranchName: string;
+  execute: boolean;
+
+  logger: Logger;
+
+  remote?: Remote;
+
+  constructor(
+    cwd: string,
+    logger: Logger,
+    flags: { repository?: string; remote?: string; from: string; to: string; execute: boolean }
+  ) {
+    this.cwd = cwd;
+    this.logger = logger;
+    this.repository = flags.repository;
+    this.remoteName = flags.remote;
+    this.oldBranchName = flags.from;
+    this.newBranchName = flags.to;
+    this.execute = flags.execute;
+  }
+
+  async run(): Promise<void> {
+    if (!this.execute) {
+      this.logger.information(
+        chalk.bgBlue.white(
+          `Running in dry-run mode. No changes will be made - commands that make changes will be printed ${chalk.underline(
+            'only'
+          )} for information\n`
+        )
+      );
+    }
+
+    return this.migrate()
+      .then(() => this.logComplete())
+      .catch((err: Error) => {
+        this.logger.error(err);
+      });
+  }
+
+  get steps(): Step[] {
+    return [
+      { name: 'checkWorkingCopy', run: (): Promise<void> => this.checkWorkingCopy() },
+      { name: 'findRemote', run: (): Promise<void> => this.findRemote() },
+      { name: 'checkRemoteBranches', run: (): Promise<void> => this.checkRemoteBranches() },
+      { name: 'fetch', run: (): Promise<void> => this.fetch() },
+      { name: 'setRemoteHead', run: (): Promise<void> => this.setRemoteHead() },
+      { name: 'renameLocalBranch', run: (): Promise<void> => this.renameLocalBranch() },
+      { name: 'updateTrackingBranches', run: (): Promise<void> => this.updateTrackingBranches() },
+    ];
+  }
+
+  async migrate(): Promise<void> {
+    for (const step of this.steps) {
+      await step.run();
+    }
+  }
+
+  logComplete(): void {
+    if (this.execute) {
+      this.logger.log(emoji.emojify(`\n:tada: Local copy updated :tada:`));
+    } else {
+      this.logger.information('Dry run complete. Run again with the -x or --execute flag to execute.', true);
+    }
+  }
+
+  /* Steps */
+
+  async checkWorkingCopy(): Promise<void> {
+    const msg = 'Checking that this is a git working copy';
+
+    const spinner = this.logger.spin(msg);
+    try {
+      this.git(['rev-parse', '--is-inside-work-tree']);
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw new Error(`${this.cwd} is not a git working copy`);
+    }
+  }
+
+  async findRemote(): Promise<void> {
+    const msg = `Finding the remote for ${this.repository ?? 'the repository'}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const remotes = parseRemotes(this.git(['remote', '-v']));
+      this.remote = this.remoteName
+        ? remotes.find((remote) => remote.name === this.remoteName)
+        : findRemote(remotes, this.repository);
+
+      if (!this.remote) {
+        throw new Error(
+          this.remoteName
+            ? `There is no remote named ${this.remoteName}`
+            : `Unable to find the remote${
+                this.repository ? ` for ${this.repository}` : ''
+              }. Pass the name of the remote with --remote`
+        );
+      }
+
+      this.logger.log(`Using ${this.remote.name} (${this.remote.url})`);
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail(err.message);
+      throw err;
+    }
+  }
+
+  /* The branch must have been renamed on GitHub first, which is checked without changing anything locally */
+
+  async checkRemoteBranches(): Promise<void> {
+    const msg = `Checking that ${this.oldBranchName} has been renamed to ${this.newBranchName} on the remote`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const heads = this.git(
+        ['ls-remote', '--heads', this.remoteRef, this.oldBranchName, this.newBranchName],
+        remoteTimeout
+      );
+      const branches = heads.split('\n').map((line) => line.replace(/^\S+\s+refs\/heads\//, ''));
+
+      if (!branches.includes(this.newBranchName)) {
+        throw new Error(
+          `The ${this.newBranchName} branch doesn't exist on ${this.remoteRef}. Migrate the repository before updating local copies`
+        );
+      }
+      if (branches.includes(this.oldBranchName)) {
+        this.logger.warn(`The ${this.oldBranchName} branch still exists on ${this.remoteRef}`);
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async fetch(): Promise<void> {
+    const msg = `Fetching ${this.remoteRef}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      // Pruning removes the remote tracking branch for the old branch
+      this.change(['fetch', '--prune', this.remoteRef]);
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async setRemoteHead(): Promise<void> {
+    const msg = `Updating the default branch of ${this.remoteRef}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      this.change(['remote', 'set-head', this.remoteRef, '--auto']);
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async renameLocalBranch(): Promise<void> {
+    const msg = `Renaming the local ${this.oldBranchName} branch to ${this.newBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const branches = this.localBranches();
+
+      if (!branches.includes(this.oldBranchName)) {
+        this.logger.log(`There is no local ${this.oldBranchName} branch`);
+      } else if (branches.includes(this.newBranchName)) {
+        this.logger.warn(
+          `A local ${this.newBranchName} branch already exists, so ${this.oldBranchName} has not been renamed`
+        );
+      } else {
+        this.change(['branch', '--move', this.oldBranchName, this.newBranchName]);
+        this.change(['branch', `--set-upstream-to=${this.remoteRef}/${this.newBranchName}`, this.newBranchName]);
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async updateTrackingBranches(): Promise<void> {
+    const msg = `Updating other local branches that track ${this.remoteRef}/${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const tracking = parseTrackingBranches(
+        this.git(['for-each-ref', '--format=%(refname:short) %(upstream:short)', 'refs/heads'])
+      ).filter(({ upstream }) => upstream === `${this.remoteRef}/${this.oldBranchName}`);
+
+      // During a dry run the old branch hasn't been renamed, but its upstream is updated when renaming it
+      const renamed = !this.execute && !this.localBranches().includes(this.newBranchName);
+      const others = tracking.filter(({ branch }) => !renamed || branch !== this.oldBranchName);
+      if (!others.length) {
+        this.logger.log(`No other branches track ${this.remoteRef}/${this.oldBranchName}`);
+      }
+      for (const { branch } of others) {
+        this.change(['branch', `--set-upstream-to=${this.remoteRef}/${this.newBranchName}`, branch]);
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  /* Helpers */
+
+  get remoteRef(): string {
+    return this.remote?.name ?? 'origin';
+  }
+
+  localBranches(): string[] {
+    return this.git(['for-each-ref', '--format=%(refname:short)', 'refs/heads']).split('\n').filter(Boolean);
+  }
+
+  /* Run a git command that changes the working copy, or print it during a dry run */
+
+  change(args: string[]): void {
+    if (!this.execute) {
+      this.logger.log(`Would run: git ${args.join(' ')}`);
+      return;
+    }
+
+    this.logger.log(`Running: git ${args.join(' ')}`);
+    this.git(args, remoteTimeout);
+  }
+
+  git(args: string[], timeout = localTimeout): string {
+    const result = spawnSync('git', args, {
+      cwd: this.cwd,
+      encoding: 'utf8',
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      timeout,
+    });
+    if (result.error) {
+      throw (result.error as NodeJS.ErrnoException).code === 'ETIMEDOUT'
+        ? new Error(`git ${args.join(' ')} timed out after ${timeout / 1000} seconds`)
+        : result.error;
+    }
+    if (result.status !== 0) {
+      throw new Error(`git ${args.join(' ')} failed - ${result.stderr.trim()}`);
+    }
+    return result.stdout.trim();
+  }
+}
+
+export default LocalRepository;
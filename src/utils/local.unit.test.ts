@@ -0,0 +1,99 @@
+import LocalRepository, { findRemote, parseRemotes, parseTrackingBranches } from './local';
+import Logger from './logger';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The local helpers', () => {
+  const remotes = [
+    { name: 'origin', url: 'git@github.com:guardian/test.git' },
+    { name: 'upstream', url: 'https://github.com/other/test' },
+  ];
+
+  test('parse the remotes', () => {
+    expect(
+      parseRemotes(`origin\tgit@github.com:guardian/test.git (fetch)
+origin\tgit@github.com:guardian/test.git (push)
+upstream\thttps://github.com/other/test (fetch)
+upstream\thttps://github.com/other/test (push)`)
+    ).toEqual(remotes);
+  });
+
+  test('parse the upstream of each branch', () => {
+    expect(parseTrackingBranches('master origin/master\nfeature origin/master\nlocal\n')).toEqual([
+      { branch: 'master', upstream: 'origin/master' },
+      { branch: 'feature', upstream: 'origin/master' },
+    ]);
+  });
+
+  test('find the remote for a repository', () => {
+    expect(findRemote(remotes, 'guardian/test')?.name).toBe('origin');
+    expect(findRemote(remotes, 'other/test')?.name).toBe('upstream');
+    expect(findRemote(remotes, 'guardian/other')).toBeUndefined();
+    expect(findRemote(remotes)?.name).toBe('origin');
+  });
+});
+
+describe('The LocalRepository class', () => {
+  let dir: string;
+  let work: string;
+
+  const git = (cwd: string, ...args: string[]): string =>
+    execFileSync('git', args, {
+      cwd,
+      encoding: 'utf8',
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Test',
+        GIT_AUTHOR_EMAIL: 'test@example.com',
+        GIT_COMMITTER_NAME: 'Test',
+        GIT_COMMITTER_EMAIL: 'test@example.com',
+      },
+    }).trim();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-local-'));
+    const origin = path.join(dir, 'origin.git');
+    work = path.join(dir, 'work');
+
+    git(dir, 'init', '--quiet', '--bare', origin);
+    git(dir, 'clone', '--quiet', origin, work);
+    git(work, 'checkout', '--quiet', '-b', 'master');
+    git(work, 'commit', '--quiet', '--allow-empty', '-m', 'Initial commit');
+    git(work, 'push', '--quiet', '-u', 'origin', 'master');
+    git(work, 'branch', '--quiet', '--track', 'feature', 'origin/master');
+
+    // Rename the branch on the remote, as the migration does on GitHub
+    git(origin, 'branch', '-m', 'master', 'main');
+    git(origin, 'symbolic-ref', 'HEAD', 'refs/heads/main');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const run = (execute: boolean): Promise<void> => {
+    const logger = new Logger(false, jest.fn(), jest.fn(), (message) => {
+      throw new Error(message);
+    });
+    return new LocalRepository(work, logger, { from: 'master', to: 'main', execute }).run();
+  };
+
+  test('makes no changes during a dry run', async () => {
+    await run(false);
+
+    expect(git(work, 'branch', '--format=%(refname:short) %(upstream:short)')).toBe(
+      'feature origin/master\nmaster origin/master'
+    );
+  });
+
+  test('renames the local branch and updates the branches tracking the old branch', async () => {
+    await run(true);
+
+    expect(git(work, 'branch', '--format=%(refname:short) %(upstream:short)')).toBe(
+      'feature origin/main\nmain origin/main'
+    );
+    expect(git(work, 'symbolic-ref', 'refs/remotes/origin/HEAD')).toBe('refs/remotes/origin/main');
+  });
+});
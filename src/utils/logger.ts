@@ -1,11 +1,41 @@
+import fs from 'fs';
 import ora, { Ora } from 'ora';
 import logSymbols from 'log-symbols';
 import chalk from 'chalk';
 
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export const logLevels: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+export interface LoggerOptions {
+  // Defaults to debug when verbose and info otherwise
+  level?: LogLevel;
+  // Whether spinners are animated. When they aren't, such as in CI, every message is printed on a line of its own
+  interactive?: boolean;
+  // Defaults to on when not interactive
+  timestamps?: boolean;
+  // A file that every message is written to, whatever the level
+  logFile?: string;
+}
+
+const ansi = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+/* Remove tokens from a message, such as those in authorization headers of requests logged by Octokit */
+
+export const redact = (message: string): string =>
+  message
+    .replace(/(authorization["']?\s*[:=]\s*["']?(?:token|bearer|basic)\s+)[^"'\s,}]+/gi, '$1[REDACTED]')
+    .replace(/\b(?:gh[pousr]_|github_pat_)[A-Za-z0-9_]+/g, '[REDACTED]')
+    .replace(/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, '[REDACTED]')
+    .replace(/(x-access-token:)[^@\s"']+/g, '$1[REDACTED]');
+
 class Logger {
   verbose: boolean;
 
-  level: string;
+  level: LogLevel;
+  interactive: boolean;
+  timestamps: boolean;
+  logFile?: string;
 
   _log: (message: string) => void;
   _warn: (message: string) => void;
@@ -13,27 +43,78 @@ class Logger {
 
   spinner?: Ora;
 
+  prefix?: string;
+
   constructor(
     verbose: boolean,
     log: (message: string) => void,
     warn: (message: string) => void,
-    error: (message: string) => void
+    error: (message: string) => void,
+    options: LoggerOptions = {}
   ) {
-    this.verbose = verbose;
-    this.level = 'debug';
+    this.level = options.level ?? (verbose ? 'debug' : 'info');
+    this.verbose = verbose || this.level === 'debug';
+    this.interactive = options.interactive ?? true;
+    this.timestamps = options.timestamps ?? !this.interactive;
+    this.logFile = options.logFile;
     this._log = log;
     this._warn = warn;
     this._error = error;
   }
 
-  log(message: string): void {
+  get options(): LoggerOptions {
+    return { level: this.level, interactive: this.interactive, timestamps: this.timestamps, logFile: this.logFile };
+  }
+
+  enabled(level: LogLevel): boolean {
+    return logLevels.indexOf(level) <= logLevels.indexOf(this.level);
+  }
+
+  log(message: string, level: LogLevel = 'info'): void {
+    this.write(level, message);
+    if (!this.enabled(level)) return;
+
+    // Spinners are only started when interactive, otherwise every message is printed on a line of its own
     if (this.spinner && this.spinner.isSpinning) {
-      this.spinner.text += `\n    ${chalk.blue('>')} ${chalk.italic(message)}`;
+      this.spinner.text += `\n    ${chalk.blue('>')} ${chalk.italic(redact(message))}`;
     } else {
-      this._log(message);
+      this._log(this.format(message));
     }
   }
 
+  /* Create a logger for a single repository, used when several repositories are migrated at once */
+
+  withPrefix(prefix: string): Logger {
+    const logger = new Logger(this.verbose, this._log, this._warn, this._error, this.options);
+    logger.prefix = prefix;
+    return logger;
+  }
+
+  addPrefix(message: string): string {
+    if (!this.prefix) return message;
+    // Keep any leading new lines before the prefix
+    return message.replace(/^(\n*)/, `$1${chalk.dim(`[${this.prefix}]`)} `);
+  }
+
+  get timestamp(): string {
+    return this.timestamps ? chalk.dim(new Date().toISOString()) : '';
+  }
+
+  format(message: string): string {
+    const prefixed = this.addPrefix(redact(message));
+    return this.timestamps ? prefixed.replace(/^(\n*)/, `$1${this.timestamp} `) : prefixed;
+  }
+
+  /* Write a message to the log file, without colours and with the level of the message */
+
+  write(level: LogLevel, message: string): void {
+    if (!this.logFile) return;
+
+    const text = redact(message).replace(ansi, '').trim();
+    const prefix = this.prefix ? `[${this.prefix}] ` : '';
+    fs.appendFileSync(this.logFile, `${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} ${prefix}${text}\n`);
+  }
+
   /* Standard log levels */
 
   info(message: string): void {
@@ -41,29 +122,35 @@ class Logger {
   }
 
   debug(message: string): void {
-    if (this.verbose) {
-      this.log(message);
-    }
+    this.log(message, 'debug');
   }
 
   warn(message: string): void {
-    this._warn(message);
+    this.write('warn', message);
+    if (this.enabled('warn')) {
+      this._warn(this.format(message));
+    }
   }
 
   error(message: string): void;
   error(err: Error): void;
 
   error(errOrMessage: Error | string): void {
+    this.write(
+      'error',
+      errOrMessage instanceof Error ? `${errOrMessage.message}\n${errOrMessage.stack}` : errOrMessage
+    );
+
     if (errOrMessage instanceof Error) {
       if (this.verbose) {
         let msg = errOrMessage.message;
         msg += errOrMessage.stack;
-        this._error(msg);
+        this._error(redact(msg));
       } else {
-        this._error(errOrMessage.message);
+        this._error(redact(errOrMessage.message));
       }
     } else {
-      this._error(errOrMessage);
+      this._error(redact(errOrMessage));
     }
   }
 
@@ -73,9 +160,34 @@ class Logger {
     if (this.spinner) {
       this.spinner.stop();
     }
-    this.spinner = ora(message);
-
-    this.spinner.start();
+    this.write('info', message);
+
+    // Prefixed loggers run side by side, so their spinners are printed as plain lines rather than animated
+    const plain = !this.interactive || !!this.prefix;
+    const silent = !this.enabled('info');
+    const tags = (): string =>
+      [this.timestamp, this.prefix ? chalk.dim(`[${this.prefix}]`) : ''].filter(Boolean).join(' ');
+    const spinner =
+      plain || silent ? ora({ text: message, prefixText: tags, isEnabled: false, isSilent: silent }) : ora(message);
+
+    // Record the outcome of each step in the log file
+    const { succeed, fail } = spinner;
+    spinner.succeed = (text?: string): Ora => {
+      this.write('info', `${logSymbols.success} ${text ?? message}`);
+      return succeed.call(spinner, text);
+    };
+    spinner.fail = (text?: string): Ora => {
+      this.write('error', `${logSymbols.error} ${text ?? message}`);
+      return fail.call(spinner, text);
+    };
+
+    this.spinner = spinner;
+    // A disabled spinner starts with a line without the prefix or timestamp, so that line is logged here instead
+    if (!plain) {
+      this.spinner.start();
+    } else if (!silent) {
+      this._log(this.format(`- ${message}`));
+    }
     return this.spinner;
   }
 
@@ -0,0 +1,63 @@
+import fs from 'fs';
+
+/* A branch to rename, with the name it is renamed to */
+
+export interface BranchMapping {
+  from: string;
+  to: string;
+}
+
+/*
+ * Parse a list of mappings such as `master:main,develop:dev`, separated by commas or new lines. Lines starting with
+ * `#` are comments. A branch can only be renamed once, and can't be renamed to the name of another branch that is
+ * being renamed, as the order of the renames would then matter.
+ */
+export const parseMappings = (value: string): BranchMapping[] => {
+  const mappings = value
+    .split(/[,\n]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry && !entry.startsWith('#'))
+    .map((entry) => {
+      const match = /^([^:\s]+):([^:\s]+)$/.exec(entry);
+      if (!match) {
+        throw new Error(`Invalid branch mapping ${entry}. Use the form from:to`);
+      }
+      if (match[1] === match[2]) {
+        throw new Error(`The branch mapping ${entry} renames ${match[1]} to itself`);
+      }
+      return { from: match[1], to: match[2] };
+    });
+
+  if (!mappings.length) {
+    throw new Error('No branch mappings found');
+  }
+
+  mappings.forEach((mapping, index) => {
+    const others = mappings.filter((_, other) => other !== index);
+    if (others.some((other) => other.from === mapping.from)) {
+      throw new Error(`The ${mapping.from} branch is renamed more than once`);
+    }
+    if (others.some((other) => other.to === mapping.to)) {
+      throw new Error(`More than one branch is renamed to ${mapping.to}`);
+    }
+    if (others.some((other) => other.from === mapping.to)) {
+      throw new Error(`The ${mapping.to} branch is renamed, so ${mapping.from} can't be renamed to ${mapping.to}`);
+    }
+  });
+
+  return mappings;
+};
+
+/* Read the mappings from a file if one exists at the given path, or parse them from the value itself */
+
+export const readMappings = (value: string): BranchMapping[] => {
+  if (!fs.existsSync(value)) {
+    return parseMappings(value);
+  }
+
+  try {
+    return parseMappings(fs.readFileSync(value, 'utf8'));
+  } catch (err) {
+    throw new Error(`Unable to read the branch mappings in ${value} - ${err.message}`);
+  }
+};
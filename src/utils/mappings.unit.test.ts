@@ -0,0 +1,40 @@
+import { parseMappings, readMappings } from './mappings';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The branch mappings', () => {
+  const mappings = [
+    { from: 'master', to: 'main' },
+    { from: 'develop', to: 'dev' },
+    { from: 'gh-pages', to: 'site' },
+  ];
+
+  test('parse a comma separated list of mappings', () => {
+    expect(parseMappings('master:main, develop:dev,gh-pages:site')).toEqual(mappings);
+  });
+
+  test('read mappings from a file, one per line', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-mappings-'));
+    const file = path.join(dir, 'branches.txt');
+    fs.writeFileSync(file, '# Branches to rename\nmaster:main\ndevelop:dev\n\ngh-pages:site\n');
+
+    try {
+      expect(readMappings(file)).toEqual(mappings);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('throw an error for invalid mappings', () => {
+    expect(() => parseMappings('master')).toThrow('Invalid branch mapping master');
+    expect(() => parseMappings('master:master')).toThrow('renames master to itself');
+    expect(() => parseMappings(' ')).toThrow('No branch mappings found');
+  });
+
+  test('throw an error for mappings that conflict with each other', () => {
+    expect(() => parseMappings('master:main,master:trunk')).toThrow('The master branch is renamed more than once');
+    expect(() => parseMappings('master:main,develop:main')).toThrow('More than one branch is renamed to main');
+    expect(() => parseMappings('master:main,main:trunk')).toThrow("so master can't be renamed to main");
+  });
+});
@@ -0,0 +1,167 @@
+import { Octokit } from '@octokit/rest';
+import { Credentials, isAppAuth } from './auth';
+import Logger from './logger';
+import Recording from './recording';
+
+export const defaultApiUrl = 'https://api.github.com';
+
+/*
+ * The address of the web interface for an API. GitHub Enterprise Server serves its API from `/api/v3` on the same
+ * host, whereas github.com uses a separate `api.` host.
+ */
+export const webUrl = (apiUrl: string): string => {
+  const url = new URL(apiUrl);
+  if (url.hostname.startsWith('api.')) {
+    url.hostname = url.hostname.slice('api.'.length);
+  }
+  url.pathname = url.pathname.replace(/\/api\/v3\/?$/, '');
+  return url.toString().replace(/\/$/, '');
+};
+
+type Headers = Record<string, string | number | undefined>;
+
+interface RateLimit {
+  remaining: number;
+  reset: number;
+}
+
+const maxRetries = 4;
+
+// A request that failed with a server error may still have been carried out, so only these are safe to send again
+const idempotentMethods = ['GET', 'HEAD'];
+
+// The last rate limit seen for each API and resource, shared by every client so that concurrent migrations all wait
+const rateLimits = new Map<string, RateLimit>();
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/* The rate limit resource of a request. Search, and code search in particular, have much lower limits than the rest */
+
+export const rateLimitResource = (url: string): string => {
+  if (url.startsWith('/search/code')) return 'code_search';
+  if (url.startsWith('/search/')) return 'search';
+  if (url.startsWith('/graphql')) return 'graphql';
+  return 'core';
+};
+
+/*
+ * How long to wait before retrying a failed request, or undefined if it shouldn't be retried. Rate limited requests
+ * wait for as long as the `retry-after` or `x-ratelimit-reset` headers ask, secondary rate limits without either wait
+ * a minute and server errors back off exponentially. Server errors are only retried for requests that read, so that
+ * a change such as opening an issue isn't made twice.
+ */
+export const retryDelay = (
+  method: string,
+  status: number,
+  headers: Headers,
+  message: string,
+  attempt: number,
+  now = Date.now()
+): number | undefined => {
+  if (attempt >= maxRetries) return;
+
+  if (status === 403 || status === 429) {
+    if (headers['retry-after'] !== undefined) return Number(headers['retry-after']) * 1000;
+    if (String(headers['x-ratelimit-remaining']) === '0' && headers['x-ratelimit-reset'] !== undefined) {
+      return Math.max(Number(headers['x-ratelimit-reset']) * 1000 - now, 0) + 1000;
+    }
+    if (/secondary rate limit|abuse/i.test(message)) return 60 * 1000 * 2 ** attempt;
+    return;
+  }
+
+  if ([500, 502, 503, 504].includes(status) && idempotentMethods.includes(method.toUpperCase())) {
+    return 1000 * 2 ** attempt;
+  }
+};
+
+const recordRateLimit = (apiUrl: string, headers: Headers, logger: Logger): void => {
+  if (headers['x-ratelimit-remaining'] === undefined || headers['x-ratelimit-reset'] === undefined) return;
+
+  const resource = String(headers['x-ratelimit-resource'] ?? 'core');
+  const limit = { remaining: Number(headers['x-ratelimit-remaining']), reset: Number(headers['x-ratelimit-reset']) };
+  rateLimits.set(`${apiUrl} ${resource}`, limit);
+
+  logger.debug(
+    `${limit.remaining} of ${headers['x-ratelimit-limit']} ${resource} requests remaining until ${new Date(
+      limit.reset * 1000
+    ).toLocaleTimeString()}`
+  );
+};
+
+/* Wait for the rate limit to reset if the last response said there were no requests remaining */
+
+const waitForRateLimit = async (apiUrl: string, resource: string, logger: Logger): Promise<void> => {
+  const limit = rateLimits.get(`${apiUrl} ${resource}`);
+  if (!limit || limit.remaining > 0) return;
+
+  const wait = limit.reset * 1000 - Date.now();
+  if (wait > 0) {
+    logger.warn(
+      `The ${resource} rate limit has been reached. Waiting until ${new Date(limit.reset * 1000).toLocaleTimeString()}`
+    );
+    await sleep(wait + 1000);
+  }
+  rateLimits.delete(`${apiUrl} ${resource}`);
+};
+
+/*
+ * Create an Octokit client that routes its logs through the logger, waits for rate limits to reset and retries
+ * requests that fail because of rate limits or server errors. With a recording, each request is either recorded or
+ * answered from the recording without using the network.
+ */
+const createOctokit = (
+  credentials: Credentials,
+  logger: Logger,
+  apiUrl = defaultApiUrl,
+  recording?: Recording
+): Octokit => {
+  const octokit = new Octokit({
+    baseUrl: apiUrl,
+    ...(isAppAuth(credentials) ? { authStrategy: (): typeof credentials => credentials } : { auth: credentials }),
+    previews: ['luke-cage-preview', 'zzzax-preview'],
+    log: {
+      debug: (message: string, ...args): void => {
+        logger.debug(`${message} ${JSON.stringify(args)}`);
+      },
+      info: (message: string): void => {
+        logger.debug(message);
+      },
+      warn: (message: string): void => {
+        logger.warn(message);
+      },
+      error: (message: string): void => {
+        logger.error(message);
+      },
+    },
+  });
+
+  octokit.hook.wrap('request', async (request, options) => {
+    const resource = rateLimitResource(options.url);
+
+    for (let attempt = 0; ; attempt++) {
+      await waitForRateLimit(apiUrl, resource, logger);
+      try {
+        const response = recording
+          ? await recording.send(octokit.request.endpoint.parse(options), async () => request(options))
+          : await request(options);
+        recordRateLimit(apiUrl, response.headers, logger);
+        return response;
+      } catch (err) {
+        const headers: Headers = err.response?.headers ?? {};
+        recordRateLimit(apiUrl, headers, logger);
+
+        const delay = retryDelay(options.method, err.status, headers, err.message, attempt);
+        if (delay === undefined) throw err;
+
+        logger.warn(
+          `${options.method} ${options.url} failed with status ${err.status}. Retrying in ${Math.ceil(delay / 1000)}s`
+        );
+        await sleep(recording?.replaying ? 0 : delay);
+      }
+    }
+  });
+
+  return octokit;
+};
+
+export default createOctokit;
@@ -0,0 +1,108 @@
+import createOctokit, { rateLimitResource, retryDelay, webUrl } from './octokit';
+import Logger from './logger';
+
+describe('The webUrl function', () => {
+  test('removes the api subdomain for github.com', () => {
+    expect(webUrl('https://api.github.com')).toBe('https://github.com');
+  });
+
+  test('removes the api path for GitHub Enterprise Server', () => {
+    expect(webUrl('https://github.example.com/api/v3')).toBe('https://github.example.com');
+    expect(webUrl('https://github.example.com/api/v3/')).toBe('https://github.example.com');
+  });
+});
+
+describe('The rateLimitResource function', () => {
+  test('separates search and code search from the core API', () => {
+    expect(rateLimitResource('/search/code')).toBe('code_search');
+    expect(rateLimitResource('/search/issues')).toBe('search');
+    expect(rateLimitResource('/repos/{owner}/{repo}')).toBe('core');
+  });
+});
+
+describe('The retryDelay function', () => {
+  const now = 1600000000000;
+
+  test('waits for as long as the retry-after header asks', () => {
+    expect(retryDelay('GET', 429, { 'retry-after': '30' }, 'Too many requests', 0, now)).toBe(30000);
+  });
+
+  test('waits for the rate limit to reset', () => {
+    expect(
+      retryDelay(
+        'GET',
+        403,
+        { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1600000060' },
+        'API rate limit',
+        0,
+        now
+      )
+    ).toBe(61000);
+  });
+
+  test('backs off for secondary rate limits and server errors', () => {
+    expect(retryDelay('GET', 403, {}, 'You have exceeded a secondary rate limit', 1, now)).toBe(120000);
+    expect(retryDelay('GET', 502, {}, 'Bad gateway', 2, now)).toBe(4000);
+  });
+
+  test('does not retry other errors or after the last attempt', () => {
+    expect(retryDelay('GET', 403, {}, 'Resource not accessible by integration', 0, now)).toBeUndefined();
+    expect(retryDelay('GET', 404, {}, 'Not found', 0, now)).toBeUndefined();
+    expect(retryDelay('GET', 502, {}, 'Bad gateway', 4, now)).toBeUndefined();
+  });
+
+  test('only retries server errors for requests that read', () => {
+    expect(retryDelay('HEAD', 503, {}, 'Service unavailable', 0, now)).toBe(1000);
+    expect(retryDelay('POST', 502, {}, 'Bad gateway', 0, now)).toBeUndefined();
+    expect(retryDelay('PATCH', 500, {}, 'Server error', 0, now)).toBeUndefined();
+  });
+
+  test('retries rate limited requests whatever the method', () => {
+    expect(retryDelay('POST', 429, { 'retry-after': '30' }, 'Too many requests', 0, now)).toBe(30000);
+  });
+});
+
+describe('The createOctokit function', () => {
+  // The parts of a fetch response read by Octokit
+  const fetchResponse = (status: number, body: unknown, headers: Record<string, string>): unknown => ({
+    url: 'https://api.github.com/repos/guardian/test',
+    status,
+    headers: new Map(Object.entries({ 'content-type': 'application/json', ...headers })),
+    json: async (): Promise<unknown> => body,
+    text: async (): Promise<string> => JSON.stringify(body),
+  });
+
+  test('retries rate limited requests and logs the remaining quota', async () => {
+    const debug: string[] = [];
+    const logger = new Logger(true, (message) => debug.push(message), jest.fn(), jest.fn());
+    const octokit = createOctokit('token', logger);
+
+    const fetch = jest
+      .fn()
+      .mockResolvedValueOnce(
+        fetchResponse(403, { message: 'You have exceeded a secondary rate limit' }, { 'retry-after': '0' })
+      )
+      .mockResolvedValueOnce(
+        fetchResponse(
+          200,
+          { name: 'test' },
+          {
+            'x-ratelimit-limit': '5000',
+            'x-ratelimit-remaining': '4999',
+            'x-ratelimit-reset': '1600000000',
+            'x-ratelimit-resource': 'core',
+          }
+        )
+      );
+
+    const response = await octokit.request('GET /repos/{owner}/{repo}', {
+      owner: 'guardian',
+      repo: 'test',
+      request: { fetch },
+    });
+
+    expect(response.data).toEqual({ name: 'test' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(debug.some((message) => message.startsWith('4999 of 5000 core requests remaining'))).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import { FollowUp } from './journal';
+import { PluginEntry } from './plugins';
+import { ProtectionSummary } from './protection';
+
+export const planVersion = 2;
+
+export const defaultPlanPath = 'm2m-plan.json';
+
+/* The options of the migration, so that `m2m apply` runs it the same way as it was planned */
+
+export interface PlanOptions {
+  issues: boolean;
+  fixReferences: boolean;
+  prComments: boolean;
+  scanTree: boolean;
+  assignee?: string;
+  assignTeam?: string;
+  trackingIssue: boolean;
+  project?: string;
+  projectStatus: string;
+  guardian: boolean;
+  // Every plugin loaded when planning, including those from the config file, with local plugins as absolute paths
+  plugins: PluginEntry[];
+}
+
+/* The parts of the repository that the plan depends on. Any change to them means the plan is out of date */
+
+export interface RepositoryState {
+  defaultBranch: string;
+  // The commit at the head of the old branch, so that the files found are the files that will be changed
+  oldBranchSha: string;
+  newBranchExists: boolean;
+  pullRequests: number[];
+  protection: ProtectionSummary | null;
+}
+
+export interface FileChange {
+  path: string;
+  content: string;
+}
+
+export interface Plan {
+  version: number;
+  createdAt: string;
+  repository: string;
+  apiUrl: string;
+  from: string;
+  to: string;
+  options: PlanOptions;
+  state: RepositoryState;
+  // The changes the references pull request makes, and the files they update fully, which are applied as reviewed
+  changes: FileChange[];
+  fixedFiles: string[];
+  // The rest of the plan is for reviewing
+  pullRequests: { number: number; title: string; url: string }[];
+  files: string[];
+  workflows: string[];
+  issues: FollowUp[];
+}
+
+export const writePlan = (file: string, plan: Plan): void => {
+  fs.writeFileSync(file, `${JSON.stringify(plan, null, 2)}\n`);
+};
+
+export const readPlan = (file: string): Plan => {
+  let plan: Plan;
+  try {
+    plan = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err) {
+    throw new Error(`Unable to read the plan at ${file} - ${err.message}`);
+  }
+
+  if (plan.version !== planVersion) {
+    throw new Error(`The plan at ${file} was made by a different version of m2m. Make a new plan with \`m2m plan\``);
+  }
+  return plan;
+};
+
+/* The differences between the state of the repository when it was planned and its state now */
+
+export const findDrift = (planned: RepositoryState, current: RepositoryState): string[] => {
+  const drift: string[] = [];
+
+  if (planned.defaultBranch !== current.defaultBranch) {
+    drift.push(`The default branch has changed from ${planned.defaultBranch} to ${current.defaultBranch}`);
+  }
+  if (planned.oldBranchSha !== current.oldBranchSha) {
+    const [from, to] = [planned.oldBranchSha, current.oldBranchSha].map((sha) => sha.slice(0, 7));
+    drift.push(to ? `The head of the branch has moved from ${from} to ${to}` : 'The branch no longer exists');
+  }
+  if (planned.newBranchExists !== current.newBranchExists) {
+    drift.push(current.newBranchExists ? 'The new branch has been created' : 'The new branch has been deleted');
+  }
+
+  const list = (numbers: number[]): string =>
+    `${numbers.length === 1 ? 'Pull request' : 'Pull requests'} ${numbers.map((number) => `#${number}`).join(', ')}`;
+  const opened = current.pullRequests.filter((number) => !planned.pullRequests.includes(number));
+  const closed = planned.pullRequests.filter((number) => !current.pullRequests.includes(number));
+  if (opened.length) {
+    drift.push(`${list(opened)} opened since the plan was made`);
+  }
+  if (closed.length) {
+    drift.push(`${list(closed)} closed or retargeted since the plan was made`);
+  }
+
+  if (JSON.stringify(planned.protection) !== JSON.stringify(current.protection)) {
+    drift.push('The branch protection has changed');
+  }
+
+  return drift;
+};
@@ -0,0 +1,63 @@
+import { findDrift, planVersion, readPlan, RepositoryState } from './plan';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The plan helpers', () => {
+  const state: RepositoryState = {
+    defaultBranch: 'master',
+    oldBranchSha: 'a94a8fe5ccb19ba61c4c0873d391e987982fbbd3',
+    newBranchExists: false,
+    pullRequests: [1, 2],
+    protection: null,
+  };
+
+  test('find no drift when nothing has changed', () => {
+    expect(findDrift(state, { ...state })).toEqual([]);
+  });
+
+  test('describe each change since the plan was made', () => {
+    expect(
+      findDrift(state, {
+        defaultBranch: 'develop',
+        oldBranchSha: 'e69de29bb2d1d6434b8b29ae775ad8c2e48c5391',
+        newBranchExists: true,
+        pullRequests: [2, 3, 4],
+        protection: {
+          requiredStatusChecks: ['build'],
+          strictStatusChecks: false,
+          requiredApprovingReviews: 1,
+          requireCodeOwnerReviews: false,
+          dismissStaleReviews: false,
+          enforceAdmins: false,
+          requireLinearHistory: false,
+          allowForcePushes: false,
+          allowDeletions: false,
+          restricted: false,
+        },
+      })
+    ).toEqual([
+      'The default branch has changed from master to develop',
+      'The head of the branch has moved from a94a8fe to e69de29',
+      'The new branch has been created',
+      'Pull requests #3, #4 opened since the plan was made',
+      'Pull request #1 closed or retargeted since the plan was made',
+      'The branch protection has changed',
+    ]);
+  });
+
+  test('only read plans made by this version', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-plan-'));
+    const file = path.join(dir, 'plan.json');
+
+    try {
+      fs.writeFileSync(file, JSON.stringify({ version: planVersion + 1 }));
+      expect(() => readPlan(file)).toThrow('made by a different version');
+
+      fs.writeFileSync(file, '{');
+      expect(() => readPlan(file)).toThrow(`Unable to read the plan at ${file}`);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
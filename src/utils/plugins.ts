@@ -0,0 +1,123 @@
+import { Octokit } from '@octokit/rest';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import Logger from './logger';
+import Report from './report';
+import { FileMatch } from './search';
+
+/* The state of the migration that is passed to each plugin step */
+
+export interface PluginContext {
+  owner: string;
+  repo: string;
+  oldBranchName: string;
+  newBranchName: string;
+  defaultBranch: string;
+  execute: boolean;
+  issues: boolean;
+
+  octokit: Octokit;
+  logger: Logger;
+  report: Report;
+
+  /*
+   * Open an issue labelled `master-to-main`, or only record it in the report during a dry run. The key identifies
+   * the issue in the config file, where its title, body and labels can be overridden using the variables
+   */
+  openIssue(key: string, title: string, body: string, variables?: Record<string, string>): Promise<void>;
+
+  /*
+   * Find the files in the repository that contain a term or have a name, using code search or by scanning the files
+   * of the branch
+   */
+  findFiles(options: { term?: string; filename?: string }): Promise<FileMatch[]>;
+
+  // The URL that the path of a file on the new branch can be appended to
+  blobUrl: string;
+}
+
+export interface PluginStep {
+  name: string;
+  run: (context: PluginContext) => Promise<void>;
+}
+
+/*
+ * A plugin adds steps to the migration for tooling that isn't covered by the core steps, such as deployment tools.
+ *
+ * - `preChecks` run before the user is asked to confirm the migration and should not make any changes
+ * - `mutations` run straight after the branch has been renamed
+ * - `postRenameChecks` run after the mutations, typically opening issues for anything that needs updating by hand
+ * - `issueItems` are added as checklist items to the issue regarding other configuration
+ * - `issueTitles` are the titles of any issues the plugin opens by their key, so they can be closed when rolling back
+ */
+export interface Plugin {
+  name: string;
+  preChecks?: PluginStep[];
+  mutations?: PluginStep[];
+  postRenameChecks?: PluginStep[];
+  issueItems?: (context: PluginContext) => string[];
+  issueTitles?: (context: PluginContext) => Record<string, string>;
+}
+
+/* Plugins can be listed by name, or as an object with the options to load the plugin with */
+
+export type PluginEntry = string | { name: string; options?: unknown };
+
+// TypeScript compiles `import()` to `require` for CommonJS output, which can't load ES modules, so it is hidden in a
+// function that is created at run time
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<NodeModule['exports']>;
+
+const requireOrImport = async (resolved: string): Promise<NodeModule['exports']> => {
+  try {
+    return require(resolved);
+  } catch (err) {
+    if (err.code !== 'ERR_REQUIRE_ESM') throw err;
+    return importModule(pathToFileURL(resolved).href);
+  }
+};
+
+/*
+ * Load a plugin from an npm package or a local file, which can be a CommonJS or an ES module. The module can export the
+ * plugin itself, or a function that is called with the options and returns the plugin.
+ */
+export const loadPlugin = async (specifier: string, options: unknown, basedir: string): Promise<Plugin> => {
+  let exported;
+  try {
+    const resolved =
+      specifier.startsWith('.') || path.isAbsolute(specifier)
+        ? path.resolve(basedir, specifier)
+        : require.resolve(specifier, { paths: [basedir] });
+
+    exported = await requireOrImport(resolved);
+  } catch (err) {
+    throw new Error(`Unable to load the plugin ${specifier} - ${err.message}`);
+  }
+
+  // ES modules, and CommonJS modules compiled from them, export the plugin as their default export
+  const value =
+    exported && (exported.__esModule || exported[Symbol.toStringTag] === 'Module') ? exported.default : exported;
+  const plugin = typeof value === 'function' ? value(options) : value;
+
+  if (!plugin || typeof plugin.name !== 'string') {
+    throw new Error(`The plugin ${specifier} must export an object with a name`);
+  }
+
+  return plugin;
+};
+
+/* Resolve a local plugin to an absolute path, so that it can be loaded again from another directory */
+
+export const resolvePluginEntry = (entry: PluginEntry, basedir: string): PluginEntry => {
+  const name = typeof entry === 'string' ? entry : entry.name;
+  const resolved = name.startsWith('.') ? path.resolve(basedir, name) : name;
+  return typeof entry === 'string' ? resolved : { ...entry, name: resolved };
+};
+
+export const loadPlugins = (entries: PluginEntry[], basedir: string): Promise<Plugin[]> =>
+  Promise.all(
+    entries.map((entry) =>
+      typeof entry === 'string' ? loadPlugin(entry, undefined, basedir) : loadPlugin(entry.name, entry.options, basedir)
+    )
+  );
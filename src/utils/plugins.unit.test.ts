@@ -0,0 +1,82 @@
+import { loadPlugin, loadPlugins, resolvePluginEntry } from './plugins';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The plugin loader', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-plugins-'));
+    fs.writeFileSync(path.join(dir, 'object.js'), `module.exports = { name: 'object' };`);
+    fs.writeFileSync(
+      path.join(dir, 'factory.js'),
+      `module.exports = (options) => ({ name: 'factory-' + (options ? options.suffix : 'default') });`
+    );
+    fs.writeFileSync(
+      path.join(dir, 'compiled.js'),
+      `Object.defineProperty(exports, '__esModule', { value: true }); exports.default = { name: 'compiled' };`
+    );
+    fs.writeFileSync(path.join(dir, 'esm.mjs'), `export default (options) => ({ name: 'esm-' + options.suffix });`);
+    fs.writeFileSync(path.join(dir, 'unnamed.js'), `module.exports = {};`);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('loads a plugin object from a local file relative to the directory', async () => {
+    expect((await loadPlugin('./object.js', undefined, dir)).name).toBe('object');
+  });
+
+  test('calls a plugin factory with the options', async () => {
+    expect((await loadPlugin('./factory.js', { suffix: 'test' }, dir)).name).toBe('factory-test');
+  });
+
+  test('loads the default export of a module compiled from an ES module', async () => {
+    expect((await loadPlugin(path.join(dir, 'compiled.js'), undefined, dir)).name).toBe('compiled');
+  });
+
+  // Jest can't import ES modules without an experimental flag, so the plugin is loaded by Node in another process
+  test('loads the default export of an ES module', () => {
+    const script = `require('./src/utils/plugins')
+      .loadPlugin('./esm.mjs', { suffix: 'test' }, ${JSON.stringify(dir)})
+      .then((plugin) => console.log(plugin.name))`;
+    const result = spawnSync(process.execPath, ['-r', 'ts-node/register/transpile-only', '-e', script], {
+      cwd: path.resolve(__dirname, '../..'),
+      encoding: 'utf8',
+      timeout: 60000,
+    });
+
+    expect(result.stderr).toBe('');
+    expect(result.stdout.trim()).toBe('esm-test');
+  });
+
+  test('throws an error if the plugin has no name', async () => {
+    await expect(loadPlugin('./unnamed.js', undefined, dir)).rejects.toThrow(
+      'The plugin ./unnamed.js must export an object with a name'
+    );
+  });
+
+  test('throws an error if the plugin cannot be found', async () => {
+    await expect(loadPlugin('m2m-plugin-does-not-exist', undefined, dir)).rejects.toThrow(
+      'Unable to load the plugin m2m-plugin-does-not-exist'
+    );
+  });
+
+  test('loads plugins listed by name or with options', async () => {
+    const plugins = await loadPlugins(['./object.js', { name: './factory.js', options: { suffix: 'listed' } }], dir);
+
+    expect(plugins.map((plugin) => plugin.name)).toEqual(['object', 'factory-listed']);
+  });
+
+  test('resolves local plugins to absolute paths', () => {
+    expect(resolvePluginEntry('./object.js', dir)).toBe(path.join(dir, 'object.js'));
+    expect(resolvePluginEntry({ name: './factory.js', options: { suffix: 'test' } }, dir)).toEqual({
+      name: path.join(dir, 'factory.js'),
+      options: { suffix: 'test' },
+    });
+    expect(resolvePluginEntry('m2m-plugin-jenkins', dir)).toBe('m2m-plugin-jenkins');
+  });
+});
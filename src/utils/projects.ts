@@ -0,0 +1,121 @@
+import { Octokit } from '@octokit/rest';
+
+/* A GitHub Projects board, given as its number along with the user or organisation that owns it */
+
+export interface ProjectRef {
+  owner: string;
+  number: number;
+}
+
+export interface Project {
+  id: string;
+  title: string;
+  url: string;
+  statusField?: { id: string; options: { id: string; name: string }[] };
+}
+
+/*
+ * Parse a project given as a number owned by the repository owner, as `owner/number`, or as the URL of the project,
+ * such as https://github.com/orgs/guardian/projects/12
+ */
+export const parseProject = (value: string, defaultOwner: string): ProjectRef => {
+  const match =
+    /\/(?:orgs|users)\/([^/]+)\/projects\/(\d+)\/?$/.exec(value) ?? /^(?:([^/\s]+)\/)?(\d+)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Unable to parse the project ${value}. Use the project number, owner/number or the project URL`);
+  }
+  return { owner: match[1] ?? defaultOwner, number: Number(match[2]) };
+};
+
+interface ProjectQuery {
+  repositoryOwner: {
+    projectV2: {
+      id: string;
+      title: string;
+      url: string;
+      field: { id: string; options?: { id: string; name: string }[] } | null;
+    } | null;
+  } | null;
+}
+
+/* Find a project and its single select field with the given name, which is `Status` on the default boards */
+
+export const findProject = async (octokit: Octokit, ref: ProjectRef, fieldName: string): Promise<Project> => {
+  const result = await octokit.graphql<ProjectQuery>(
+    `query($owner: String!, $number: Int!, $field: String!) {
+      repositoryOwner(login: $owner) {
+        ... on ProjectV2Owner {
+          projectV2(number: $number) {
+            id
+            title
+            url
+            field(name: $field) {
+              ... on ProjectV2SingleSelectField {
+                id
+                options {
+                  id
+                  name
+                }
+              }
+            }
+          }
+        }
+      }
+    }`,
+    { owner: ref.owner, number: ref.number, field: fieldName }
+  );
+
+  const project = result.repositoryOwner?.projectV2;
+  if (!project) {
+    throw new Error(`Unable to find project ${ref.number} of ${ref.owner}`);
+  }
+
+  const field = project.field;
+  return {
+    id: project.id,
+    title: project.title,
+    url: project.url,
+    statusField: field && field.options ? { id: field.id, options: field.options } : undefined,
+  };
+};
+
+/* Add an issue to a project, which returns the existing item if it is already on the board */
+
+export const addToProject = async (octokit: Octokit, project: Project, contentId: string): Promise<string> => {
+  const result = await octokit.graphql<{ addProjectV2ItemById: { item: { id: string } } }>(
+    `mutation($project: ID!, $content: ID!) {
+      addProjectV2ItemById(input: { projectId: $project, contentId: $content }) {
+        item {
+          id
+        }
+      }
+    }`,
+    { project: project.id, content: contentId }
+  );
+  return result.addProjectV2ItemById.item.id;
+};
+
+export const setProjectStatus = async (
+  octokit: Octokit,
+  project: Project,
+  itemId: string,
+  status: string
+): Promise<void> => {
+  const option = project.statusField?.options.find((option) => option.name.toLowerCase() === status.toLowerCase());
+  if (!project.statusField || !option) {
+    throw new Error(`The project ${project.title} has no ${status} status`);
+  }
+
+  await octokit.graphql(
+    `mutation($project: ID!, $item: ID!, $field: ID!, $option: String!) {
+      updateProjectV2ItemFieldValue(
+        input: { projectId: $project, itemId: $item, fieldId: $field, value: { singleSelectOptionId: $option } }
+      ) {
+        projectV2Item {
+          id
+        }
+      }
+    }`,
+    { project: project.id, item: itemId, field: project.statusField.id, option: option.id }
+  );
+};
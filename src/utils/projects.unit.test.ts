@@ -0,0 +1,26 @@
+import { parseProject } from './projects';
+
+describe('The project helpers', () => {
+  test('parse a project number owned by the repository owner', () => {
+    expect(parseProject('12', 'guardian')).toEqual({ owner: 'guardian', number: 12 });
+  });
+
+  test('parse a project number with its owner', () => {
+    expect(parseProject('other/3', 'guardian')).toEqual({ owner: 'other', number: 3 });
+  });
+
+  test('parse the URL of an organisation or user project', () => {
+    expect(parseProject('https://github.com/orgs/guardian/projects/12', 'other')).toEqual({
+      owner: 'guardian',
+      number: 12,
+    });
+    expect(parseProject('https://github.com/users/octocat/projects/1/', 'guardian')).toEqual({
+      owner: 'octocat',
+      number: 1,
+    });
+  });
+
+  test('throw an error for anything else', () => {
+    expect(() => parseProject('guardian/projects', 'guardian')).toThrow('Unable to parse the project');
+  });
+});
@@ -0,0 +1,198 @@
+import { RestEndpointMethodTypes } from '@octokit/rest';
+import { escapeRegExp } from './search';
+
+type BranchProtection = RestEndpointMethodTypes['repos']['getBranchProtection']['response']['data'];
+type UpdateBranchProtection = RestEndpointMethodTypes['repos']['updateBranchProtection']['parameters'];
+
+/* The settings of a branch protection rule that are compared before and after the branch is renamed */
+
+export interface ProtectionSummary {
+  requiredStatusChecks: string[];
+  strictStatusChecks: boolean;
+  requiredApprovingReviews: number;
+  requireCodeOwnerReviews: boolean;
+  dismissStaleReviews: boolean;
+  enforceAdmins: boolean;
+  requireLinearHistory: boolean;
+  allowForcePushes: boolean;
+  allowDeletions: boolean;
+  restricted: boolean;
+}
+
+export interface RefNameConditions {
+  ref_name?: {
+    include?: string[];
+    exclude?: string[];
+  };
+}
+
+export interface Ruleset {
+  id: number;
+  name: string;
+  target?: string;
+  source_type?: string;
+  source: string;
+  conditions?: RefNameConditions | null;
+}
+
+/*
+ * How a ruleset is affected by renaming the branch. Rulesets that name the branch are updated, unless they belong to
+ * the organisation, and rulesets that only match the branch by a pattern may stop applying to it.
+ */
+export type RulesetChange = 'update' | 'organisation' | 'lost' | 'none';
+
+const labels: Record<keyof ProtectionSummary, string> = {
+  requiredStatusChecks: 'Required status checks',
+  strictStatusChecks: 'Require branches to be up to date',
+  requiredApprovingReviews: 'Required approving reviews',
+  requireCodeOwnerReviews: 'Require review from code owners',
+  dismissStaleReviews: 'Dismiss stale reviews',
+  enforceAdmins: 'Include administrators',
+  requireLinearHistory: 'Require linear history',
+  allowForcePushes: 'Allow force pushes',
+  allowDeletions: 'Allow deletions',
+  restricted: 'Restrict who can push',
+};
+
+const format = (value: string[] | number | boolean): string => {
+  if (Array.isArray(value)) return value.length ? value.join(', ') : 'none';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+};
+
+export const summariseProtection = (protection: BranchProtection): ProtectionSummary => ({
+  requiredStatusChecks: [...(protection.required_status_checks?.contexts ?? [])].sort(),
+  strictStatusChecks: !!protection.required_status_checks?.strict,
+  requiredApprovingReviews: protection.required_pull_request_reviews?.required_approving_review_count ?? 0,
+  requireCodeOwnerReviews: !!protection.required_pull_request_reviews?.require_code_owner_reviews,
+  dismissStaleReviews: !!protection.required_pull_request_reviews?.dismiss_stale_reviews,
+  enforceAdmins: !!protection.enforce_admins?.enabled,
+  requireLinearHistory: !!protection.required_linear_history?.enabled,
+  allowForcePushes: !!protection.allow_force_pushes?.enabled,
+  allowDeletions: !!protection.allow_deletions?.enabled,
+  restricted: !!protection.restrictions,
+});
+
+/* A one line description of the protection of a branch, for the confirmation prompt */
+
+export const describeProtection = (branch: string, summary?: ProtectionSummary): string => {
+  if (!summary) return `The ${branch} branch is not protected.`;
+
+  const rules = [
+    summary.requiredStatusChecks.length &&
+      `${summary.requiredStatusChecks.length} required status ${
+        summary.requiredStatusChecks.length === 1 ? 'check' : 'checks'
+      } (${summary.requiredStatusChecks.join(', ')})`,
+    summary.requiredApprovingReviews &&
+      `${summary.requiredApprovingReviews} required approving ${
+        summary.requiredApprovingReviews === 1 ? 'review' : 'reviews'
+      }`,
+    summary.requireCodeOwnerReviews && 'reviews from code owners',
+    summary.enforceAdmins && 'enforced for administrators',
+    summary.restricted && 'restricted pushes',
+  ].filter(Boolean);
+
+  return `The ${branch} branch is protected${rules.length ? ` with ${rules.join(', ')}` : ''}.`;
+};
+
+/* The differences between the protection of the old branch and the new branch, one line for each setting */
+
+export const compareProtection = (before?: ProtectionSummary, after?: ProtectionSummary): string[] => {
+  if (!before && !after) return [];
+  if (!after) return ['The branch is no longer protected'];
+  if (!before) return ['The branch is now protected'];
+
+  return (Object.keys(labels) as (keyof ProtectionSummary)[])
+    .filter((key) => format(before[key]) !== format(after[key]))
+    .map((key) => `${labels[key]}: ${format(before[key])} → ${format(after[key])}`);
+};
+
+/*
+ * The parameters to recreate branch protection from a summary. Push restrictions name the users, teams and apps that
+ * can push, which aren't part of the summary, so they have to be recreated by hand.
+ */
+export const protectionParameters = (
+  summary: ProtectionSummary
+): Pick<
+  UpdateBranchProtection,
+  | 'required_status_checks'
+  | 'enforce_admins'
+  | 'required_pull_request_reviews'
+  | 'restrictions'
+  | 'required_linear_history'
+  | 'allow_force_pushes'
+  | 'allow_deletions'
+> => ({
+  required_status_checks: summary.requiredStatusChecks.length
+    ? { strict: summary.strictStatusChecks, contexts: summary.requiredStatusChecks }
+    : null,
+  enforce_admins: summary.enforceAdmins,
+  required_pull_request_reviews: summary.requiredApprovingReviews
+    ? {
+        required_approving_review_count: summary.requiredApprovingReviews,
+        require_code_owner_reviews: summary.requireCodeOwnerReviews,
+        dismiss_stale_reviews: summary.dismissStaleReviews,
+      }
+    : null,
+  restrictions: null,
+  required_linear_history: summary.requireLinearHistory,
+  allow_force_pushes: summary.allowForcePushes,
+  allow_deletions: summary.allowDeletions,
+});
+
+/* Ruleset ref patterns use fnmatch syntax, where `*` doesn't match `/` but `**` does */
+
+const matchesPattern = (pattern: string, ref: string): boolean =>
+  new RegExp(
+    `^${pattern
+      .split('**')
+      .map((part) => escapeRegExp(part).replace(/\\\*/g, '[^/]*').replace(/\\\?/g, '[^/]'))
+      .join('.*')}$`
+  ).test(ref);
+
+const matchesAny = (patterns: string[], branch: string, isDefault: boolean): boolean =>
+  patterns.some(
+    (pattern) =>
+      pattern === '~ALL' ||
+      (pattern === '~DEFAULT_BRANCH' && isDefault) ||
+      matchesPattern(pattern, `refs/heads/${branch}`)
+  );
+
+export const rulesetAppliesTo = (conditions: RefNameConditions, branch: string, isDefault: boolean): boolean =>
+  matchesAny(conditions.ref_name?.include ?? [], branch, isDefault) &&
+  !matchesAny(conditions.ref_name?.exclude ?? [], branch, isDefault);
+
+const names = (conditions: RefNameConditions, branch: string): boolean =>
+  [...(conditions.ref_name?.include ?? []), ...(conditions.ref_name?.exclude ?? [])].includes(`refs/heads/${branch}`);
+
+/* Replace the branch where the conditions of a ruleset name it, in both the included and excluded refs */
+
+export const renameRulesetBranch = (conditions: RefNameConditions, from: string, to: string): RefNameConditions => {
+  const rename = (patterns: string[]): string[] =>
+    patterns.map((pattern) => (pattern === `refs/heads/${from}` ? `refs/heads/${to}` : pattern));
+
+  return {
+    ...conditions,
+    ref_name: {
+      include: rename(conditions.ref_name?.include ?? []),
+      exclude: rename(conditions.ref_name?.exclude ?? []),
+    },
+  };
+};
+
+/* How renaming the branch affects a ruleset, or undefined if the ruleset doesn't involve the branch */
+
+export const rulesetChange = (
+  ruleset: Ruleset,
+  from: string,
+  to: string,
+  isDefault: boolean
+): RulesetChange | undefined => {
+  if (ruleset.target && ruleset.target !== 'branch') return;
+
+  const conditions = ruleset.conditions ?? {};
+  if (names(conditions, from)) return ruleset.source_type === 'Organization' ? 'organisation' : 'update';
+  if (!rulesetAppliesTo(conditions, from, isDefault)) return;
+
+  return rulesetAppliesTo(conditions, to, isDefault) ? 'none' : 'lost';
+};
@@ -0,0 +1,91 @@
+import {
+  compareProtection,
+  describeProtection,
+  ProtectionSummary,
+  renameRulesetBranch,
+  Ruleset,
+  rulesetChange,
+  summariseProtection,
+} from './protection';
+
+describe('The protection helpers', () => {
+  const summary: ProtectionSummary = {
+    requiredStatusChecks: ['build', 'lint'],
+    strictStatusChecks: true,
+    requiredApprovingReviews: 1,
+    requireCodeOwnerReviews: true,
+    dismissStaleReviews: false,
+    enforceAdmins: false,
+    requireLinearHistory: false,
+    allowForcePushes: false,
+    allowDeletions: false,
+    restricted: false,
+  };
+
+  test('summarise branch protection', () => {
+    expect(
+      summariseProtection({
+        required_status_checks: { strict: true, contexts: ['lint', 'build'], checks: [] },
+        required_pull_request_reviews: {
+          required_approving_review_count: 1,
+          require_code_owner_reviews: true,
+          dismiss_stale_reviews: false,
+        },
+        enforce_admins: { url: '', enabled: false },
+      })
+    ).toEqual(summary);
+  });
+
+  test('describe branch protection', () => {
+    expect(describeProtection('master', summary)).toBe(
+      'The master branch is protected with 2 required status checks (build, lint), 1 required approving review, reviews from code owners.'
+    );
+    expect(describeProtection('master')).toBe('The master branch is not protected.');
+  });
+
+  test('compare branch protection', () => {
+    expect(compareProtection(summary, summary)).toEqual([]);
+    expect(compareProtection(summary, { ...summary, requiredStatusChecks: ['build'], enforceAdmins: true })).toEqual([
+      'Required status checks: build, lint → build',
+      'Include administrators: no → yes',
+    ]);
+    expect(compareProtection(summary)).toEqual(['The branch is no longer protected']);
+  });
+
+  describe('rulesetChange function', () => {
+    const ruleset = (include: string[], exclude: string[] = [], source_type = 'Repository'): Ruleset => ({
+      id: 1,
+      name: 'Protect',
+      source: 'guardian/test',
+      source_type,
+      target: 'branch',
+      conditions: { ref_name: { include, exclude } },
+    });
+
+    test('updates rulesets that name the branch', () => {
+      expect(rulesetChange(ruleset(['refs/heads/master']), 'master', 'main', true)).toBe('update');
+      expect(rulesetChange(ruleset(['~ALL'], ['refs/heads/master']), 'master', 'main', true)).toBe('update');
+      expect(rulesetChange(ruleset(['refs/heads/master'], [], 'Organization'), 'master', 'main', true)).toBe(
+        'organisation'
+      );
+    });
+
+    test('reports rulesets that match the branch by pattern', () => {
+      expect(rulesetChange(ruleset(['~DEFAULT_BRANCH']), 'master', 'main', true)).toBe('none');
+      expect(rulesetChange(ruleset(['refs/heads/ma*']), 'master', 'main', true)).toBe('none');
+      expect(rulesetChange(ruleset(['refs/heads/mast*']), 'master', 'main', true)).toBe('lost');
+      expect(rulesetChange(ruleset(['refs/heads/release/**']), 'master', 'main', true)).toBeUndefined();
+      expect(rulesetChange(ruleset(['~DEFAULT_BRANCH']), 'master', 'main', false)).toBeUndefined();
+    });
+  });
+
+  test('rename the branch in ruleset conditions', () => {
+    expect(
+      renameRulesetBranch(
+        { ref_name: { include: ['refs/heads/master', 'refs/heads/master-*'], exclude: ['refs/heads/master'] } },
+        'master',
+        'main'
+      )
+    ).toEqual({ ref_name: { include: ['refs/heads/main', 'refs/heads/master-*'], exclude: ['refs/heads/main'] } });
+  });
+});
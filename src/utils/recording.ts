@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import { OctokitResponse } from '@octokit/types';
+import { redact } from './logger';
+
+/* A request made to the GitHub API and the response it received */
+
+export interface Interaction {
+  request: { method: string; url: string; body?: unknown };
+  response: { status: number; headers: Record<string, string | number | undefined>; data: unknown };
+}
+
+export type RecordingMode = 'record' | 'replay';
+
+// Recorded files are numbered, so other files such as notes can be kept alongside them
+const isRecording = (file: string): boolean => /^\d+-.*\.json$/.test(file);
+
+const sameRequest = (a: Interaction['request'], b: Interaction['request']): boolean =>
+  a.method === b.method && a.url === b.url && JSON.stringify(a.body ?? null) === JSON.stringify(b.body ?? null);
+
+/*
+ * Records every request made to the GitHub API in a directory, one file per request in the order they were made, so
+ * that a run can be audited or reproduced. When replaying, each request is answered with the first unused response
+ * recorded for the same request, so a request repeated after a change gets the later response.
+ */
+class Recording {
+  dir: string;
+  mode: RecordingMode;
+
+  interactions: Interaction[] = [];
+  used = new Set<number>();
+
+  constructor(dir: string, mode: RecordingMode) {
+    this.dir = dir;
+    this.mode = mode;
+
+    if (mode === 'record') {
+      fs.mkdirSync(dir, { recursive: true });
+      if (fs.readdirSync(dir).some(isRecording)) {
+        throw new Error(`The directory ${dir} already contains a recording. Choose an empty directory`);
+      }
+      return;
+    }
+
+    let files: string[];
+    try {
+      files = fs.readdirSync(dir).filter(isRecording);
+    } catch (err) {
+      throw new Error(`Unable to read the recording at ${dir} - ${err.message}`);
+    }
+    this.interactions = files
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .map((file) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+  }
+
+  get replaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  /* Answer a request from the recording, or make it and record the response */
+
+  async send(
+    endpoint: Interaction['request'],
+    makeRequest: () => Promise<OctokitResponse<unknown>>
+  ): Promise<OctokitResponse<unknown>> {
+    // Headers are left out, as they hold the token and vary between versions of Octokit
+    const request = { method: endpoint.method, url: endpoint.url, body: endpoint.body };
+
+    if (this.replaying) {
+      const { status, headers, data } = this.take(request);
+      if (status >= 300) {
+        // The same shape as the errors thrown by Octokit
+        throw Object.assign(new Error((data as { message?: string } | undefined)?.message ?? `Status ${status}`), {
+          name: 'HttpError',
+          status,
+          response: { url: request.url, status, headers, data },
+        });
+      }
+      return { url: request.url, status, headers, data } as OctokitResponse<unknown>;
+    }
+
+    try {
+      const response = await makeRequest();
+      this.record({ request, response: { status: response.status, headers: response.headers, data: response.data } });
+      return response;
+    } catch (err) {
+      if (err.status && err.response) {
+        this.record({
+          request,
+          response: { status: err.status, headers: err.response.headers, data: err.response.data },
+        });
+      }
+      throw err;
+    }
+  }
+
+  record(interaction: Interaction): void {
+    const route = new URL(interaction.request.url).pathname
+      .replace(/[^A-Za-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 60);
+    const file = `${String(this.interactions.length + 1).padStart(4, '0')}-${interaction.request.method}-${route}.json`;
+
+    this.interactions.push(interaction);
+    fs.writeFileSync(path.join(this.dir, file), `${redact(JSON.stringify(interaction, null, 2))}\n`);
+  }
+
+  /*
+   * Find the response to a request, falling back to one recorded for the same method and URL with a different body, as
+   * bodies such as the text of issues change with the templates and version of m2m
+   */
+  take(request: Interaction['request']): Interaction['response'] {
+    const unused = (match: (recorded: Interaction['request']) => boolean): number =>
+      this.interactions.findIndex((interaction, n) => !this.used.has(n) && match(interaction.request));
+
+    let index = unused((recorded) => sameRequest(recorded, request));
+    if (index === -1) {
+      index = unused((recorded) => recorded.method === request.method && recorded.url === request.url);
+    }
+    if (index === -1) {
+      throw new Error(`The recording at ${this.dir} has no response to ${request.method} ${request.url}`);
+    }
+
+    this.used.add(index);
+    return this.interactions[index].response;
+  }
+}
+
+export default Recording;
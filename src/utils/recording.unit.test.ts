@@ -0,0 +1,114 @@
+import Recording, { Interaction } from './recording';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The recording class', () => {
+  let dir: string;
+
+  const interaction = (method: string, url: string, status: number, data: unknown, body?: unknown): Interaction => ({
+    request: { method, url: `https://api.github.com${url}`, body },
+    response: { status, headers: { 'content-type': 'application/json' }, data },
+  });
+
+  const unexpected = (): never => {
+    throw new Error('The request should not be made');
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-recording-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('records each request in a file of its own, in order', async () => {
+    const recording = new Recording(dir, 'record');
+    const response = { url: 'https://api.github.com/repos/guardian/test', status: 200, headers: {}, data: { id: 1 } };
+
+    // Octokit passes the headers of the request along with the method, URL and body
+    const endpoint = {
+      method: 'GET',
+      url: 'https://api.github.com/repos/guardian/test',
+      headers: { authorization: 'x' },
+    };
+
+    await recording.send(endpoint, async () => response);
+    await expect(
+      recording.send({ method: 'GET', url: 'https://api.github.com/repos/guardian/other' }, async () => {
+        throw Object.assign(new Error('Not Found'), { status: 404, response: { headers: {}, data: { message: 'x' } } });
+      })
+    ).rejects.toThrow('Not Found');
+
+    expect(fs.readdirSync(dir)).toEqual(['0001-GET-repos-guardian-test.json', '0002-GET-repos-guardian-other.json']);
+    const recorded = JSON.parse(fs.readFileSync(path.join(dir, '0001-GET-repos-guardian-test.json'), 'utf8'));
+    expect(recorded).toEqual({
+      request: { method: 'GET', url: 'https://api.github.com/repos/guardian/test' },
+      response: { status: 200, headers: {}, data: { id: 1 } },
+    });
+  });
+
+  test('removes tokens from the recording', () => {
+    new Recording(dir, 'record').record(
+      interaction('POST', '/app/installations/1/access_tokens', 201, { token: 'ghs_abcdef123456' })
+    );
+
+    expect(fs.readFileSync(path.join(dir, fs.readdirSync(dir)[0]), 'utf8')).not.toContain('ghs_abcdef123456');
+  });
+
+  test('will not record over an existing recording', () => {
+    new Recording(dir, 'record').record(interaction('GET', '/user', 200, { login: 'octocat' }));
+
+    expect(() => new Recording(dir, 'record')).toThrow(`The directory ${dir} already contains a recording`);
+  });
+
+  test('replays the responses to repeated requests in the order they were recorded', async () => {
+    const recorder = new Recording(dir, 'record');
+    recorder.record(interaction('GET', '/repos/guardian/test', 200, { default_branch: 'master' }));
+    recorder.record(interaction('GET', '/repos/guardian/test', 200, { default_branch: 'main' }));
+
+    const recording = new Recording(dir, 'replay');
+    const request = { method: 'GET', url: 'https://api.github.com/repos/guardian/test' };
+
+    expect((await recording.send(request, unexpected)).data).toEqual({ default_branch: 'master' });
+    expect((await recording.send(request, unexpected)).data).toEqual({ default_branch: 'main' });
+    await expect(recording.send(request, unexpected)).rejects.toThrow(
+      `The recording at ${dir} has no response to GET https://api.github.com/repos/guardian/test`
+    );
+  });
+
+  test('prefers the response to a request with the same body', async () => {
+    const recorder = new Recording(dir, 'record');
+    recorder.record(interaction('POST', '/graphql', 200, { first: true }, { query: 'first' }));
+    recorder.record(interaction('POST', '/graphql', 200, { second: true }, { query: 'second' }));
+
+    const recording = new Recording(dir, 'replay');
+    const graphql = (query: string): Interaction['request'] => ({
+      method: 'POST',
+      url: 'https://api.github.com/graphql',
+      body: { query },
+    });
+
+    expect((await recording.send(graphql('second'), unexpected)).data).toEqual({ second: true });
+    expect((await recording.send(graphql('changed'), unexpected)).data).toEqual({ first: true });
+  });
+
+  test('throws errors like Octokit for recorded failures', async () => {
+    new Recording(dir, 'record').record(
+      interaction('GET', '/repos/guardian/test/branches/main', 404, { message: 'Branch not found' })
+    );
+
+    const recording = new Recording(dir, 'replay');
+
+    await expect(
+      recording.send({ method: 'GET', url: 'https://api.github.com/repos/guardian/test/branches/main' }, unexpected)
+    ).rejects.toMatchObject({ message: 'Branch not found', status: 404, response: { status: 404 } });
+  });
+
+  test('throws an error if the recording cannot be read', () => {
+    const missing = path.join(dir, 'missing');
+
+    expect(() => new Recording(missing, 'replay')).toThrow(`Unable to read the recording at ${missing}`);
+  });
+});
@@ -0,0 +1,91 @@
+import { escapeRegExp } from './search';
+
+export interface RewriteResult {
+  content: string;
+  changed: boolean;
+  remaining: boolean;
+}
+
+/* YAML files in which branch filters can be updated, such as GitHub Actions, Travis, CircleCI and Dependabot */
+
+const yamlFiles = [
+  /^\.github\/workflows\/[^/]+\.ya?ml$/,
+  /^\.travis\.ya?ml$/,
+  /^\.circleci\/config\.ya?ml$/,
+  /^\.github\/dependabot\.ya?ml$/,
+];
+
+const markdownFiles = /\.(md|markdown)$/i;
+
+const branchKeys = ['branches', 'branches-ignore', 'target-branch'];
+
+// `only` and `ignore` are only branch filters when nested under a `branches` key, as in Travis and CircleCI
+const nestedBranchKeys = ['only', 'ignore'];
+
+const rewriteYamlBranches = (content: string, from: string, to: string): string => {
+  const scalar = new RegExp(`(^|[\\s\\[,'"])${escapeRegExp(from)}(?=$|[\\s\\],'"#])`, 'g');
+  const listItem = new RegExp(`^(\\s*-\\s*)(['"]?)${escapeRegExp(from)}\\2(\\s*(#.*)?)$`);
+
+  // The indentation of a branches key whose value is on the following lines
+  let blockIndent: number | undefined;
+
+  return content
+    .split('\n')
+    .map((line) => {
+      const indent = line.search(/\S/);
+      if (blockIndent !== undefined && indent !== -1 && indent <= blockIndent) {
+        blockIndent = undefined;
+      }
+
+      const key = /^\s*(?:-\s+)?([\w-]+)\s*:\s*(.*)$/.exec(line);
+      if (key && (branchKeys.includes(key[1]) || (blockIndent !== undefined && nestedBranchKeys.includes(key[1])))) {
+        const value = key[2];
+        if (!value || value.startsWith('#')) {
+          if (blockIndent === undefined) blockIndent = indent;
+          return line;
+        }
+        return line.slice(0, line.length - value.length) + value.replace(scalar, `$1${to}`);
+      }
+
+      if (blockIndent !== undefined) {
+        return line.replace(listItem, `$1$2${to}$2$3`);
+      }
+
+      return line;
+    })
+    .join('\n');
+};
+
+const rewriteBadges = (content: string, from: string, to: string): string =>
+  content
+    .replace(new RegExp(`([?&]branch=)${escapeRegExp(from)}\\b`, 'g'), `$1${to}`)
+    .replace(new RegExp(`(/branch/)${escapeRegExp(from)}(?=/)`, 'g'), `$1${to}`);
+
+const rewriteGitPush = (content: string, from: string, to: string): string =>
+  content.replace(
+    new RegExp(`(git push(?:\\s+-{1,2}[\\w-]+)*\\s+[\\w.-]+\\s+(?:HEAD:)?)${escapeRegExp(from)}\\b`, 'g'),
+    `$1${to}`
+  );
+
+/*
+ * Rewrite well known references to the old branch in a file. Any references left afterwards are ambiguous and
+ * need to be checked by hand.
+ */
+
+export const rewriteReferences = (path: string, content: string, from: string, to: string): RewriteResult => {
+  let updated = rewriteGitPush(content, from, to);
+
+  if (yamlFiles.some((pattern) => pattern.test(path))) {
+    updated = rewriteYamlBranches(updated, from, to);
+  }
+
+  if (markdownFiles.test(path)) {
+    updated = rewriteBadges(updated, from, to);
+  }
+
+  return {
+    content: updated,
+    changed: updated !== content,
+    remaining: new RegExp(`\\b${escapeRegExp(from)}\\b`).test(updated),
+  };
+};
@@ -0,0 +1,140 @@
+import { rewriteReferences } from './references';
+
+describe('The rewriteReferences function', () => {
+  test('updates inline branch filters in GitHub Actions workflows', () => {
+    const content = `on:
+  push:
+    branches: [ master, develop ]
+  pull_request:
+    branches: 'master'
+`;
+
+    const result = rewriteReferences('.github/workflows/ci.yml', content, 'master', 'main');
+
+    expect(result.content).toBe(`on:
+  push:
+    branches: [ main, develop ]
+  pull_request:
+    branches: 'main'
+`);
+    expect(result.changed).toBe(true);
+    expect(result.remaining).toBe(false);
+  });
+
+  test('updates branch filter lists in GitHub Actions workflows', () => {
+    const content = `on:
+  push:
+    branches:
+      - master
+      - "release/*"
+    branches-ignore:
+      - 'master'
+jobs:
+  build:
+    steps:
+      - run: echo master
+`;
+
+    const result = rewriteReferences('.github/workflows/ci.yaml', content, 'master', 'main');
+
+    expect(result.content).toBe(`on:
+  push:
+    branches:
+      - main
+      - "release/*"
+    branches-ignore:
+      - 'main'
+jobs:
+  build:
+    steps:
+      - run: echo master
+`);
+    expect(result.remaining).toBe(true);
+  });
+
+  test('updates Travis and CircleCI branch filters', () => {
+    const travis = `branches:
+  only:
+    - master
+`;
+    const circle = `workflows:
+  build:
+    jobs:
+      - deploy:
+          filters:
+            branches:
+              only: master
+`;
+
+    expect(rewriteReferences('.travis.yml', travis, 'master', 'main').content).toBe(`branches:
+  only:
+    - main
+`);
+    expect(rewriteReferences('.circleci/config.yml', circle, 'master', 'main').content).toBe(`workflows:
+  build:
+    jobs:
+      - deploy:
+          filters:
+            branches:
+              only: main
+`);
+  });
+
+  test('does not update only and ignore keys outside of a branches block', () => {
+    const content = `deploy:
+  only: master
+`;
+
+    const result = rewriteReferences('.travis.yml', content, 'master', 'main');
+
+    expect(result.changed).toBe(false);
+    expect(result.remaining).toBe(true);
+  });
+
+  test('updates the Dependabot target branch', () => {
+    const content = `updates:
+  - package-ecosystem: npm
+    target-branch: "master"
+`;
+
+    expect(rewriteReferences('.github/dependabot.yml', content, 'master', 'main').content).toBe(`updates:
+  - package-ecosystem: npm
+    target-branch: "main"
+`);
+  });
+
+  test('only updates YAML branch filters in known files', () => {
+    const content = `branches: [ master ]`;
+
+    expect(rewriteReferences('config/settings.yml', content, 'master', 'main').changed).toBe(false);
+  });
+
+  test('updates badge URLs in markdown files', () => {
+    const content = `[![CI](https://github.com/owner/repo/actions/workflows/ci.yml/badge.svg?branch=master)](https://github.com/owner/repo/actions)
+[![codecov](https://codecov.io/gh/owner/repo/branch/master/graph/badge.svg)](https://codecov.io/gh/owner/repo)`;
+
+    const result = rewriteReferences('README.md', content, 'master', 'main');
+
+    expect(result.content)
+      .toBe(`[![CI](https://github.com/owner/repo/actions/workflows/ci.yml/badge.svg?branch=main)](https://github.com/owner/repo/actions)
+[![codecov](https://codecov.io/gh/owner/repo/branch/main/graph/badge.svg)](https://codecov.io/gh/owner/repo)`);
+    expect(result.remaining).toBe(false);
+  });
+
+  test('updates git push commands in any file', () => {
+    const content = `git push origin master
+git push -u --force upstream HEAD:master`;
+
+    expect(rewriteReferences('script/deploy', content, 'master', 'main').content).toBe(`git push origin main
+git push -u --force upstream HEAD:main`);
+  });
+
+  test('leaves ambiguous references in place', () => {
+    const content = `See the master copy of the document`;
+
+    const result = rewriteReferences('README.md', content, 'master', 'main');
+
+    expect(result.changed).toBe(false);
+    expect(result.remaining).toBe(true);
+  });
+});
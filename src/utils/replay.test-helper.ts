@@ -0,0 +1,63 @@
+import path from 'path';
+import GitHub from './github';
+import Logger from './logger';
+import Recording, { Interaction } from './recording';
+
+/* Shared by the tests that run whole migrations offline, replaying the responses the GitHub API gives */
+
+export type MigrationFlags = ConstructorParameters<typeof GitHub>[4];
+
+export const notFound = { message: 'Not Found' };
+
+export const interaction = (
+  method: string,
+  route: string,
+  status: number,
+  data: unknown,
+  body?: unknown
+): Interaction => ({
+  request: { method, url: `https://api.github.com${route}`, body },
+  response: { status, headers: { 'content-type': 'application/json; charset=utf-8' }, data },
+});
+
+/* A logger that collects every message instead of printing it */
+
+export const collectingLogger = (messages: string[]): Logger => {
+  const push = (message: string): void => {
+    messages.push(message);
+  };
+  return new Logger(false, push, push, push);
+};
+
+/*
+ * The flags for a dry run migrating master to main, with every optional change turned off, whose requests are answered
+ * from the given interactions. They are recorded in dir first, which also holds the journal.
+ */
+export const replayFlags = (
+  dir: string,
+  interactions: Interaction[],
+  flags: Partial<MigrationFlags> = {}
+): MigrationFlags => {
+  const recorder = new Recording(dir, 'record');
+  interactions.forEach((interaction) => recorder.record(interaction));
+
+  return {
+    from: 'master',
+    to: 'main',
+    force: true,
+    execute: false,
+    issues: false,
+    fixReferences: false,
+    prComments: false,
+    scanTree: false,
+    trackingIssue: false,
+    projectStatus: 'Todo',
+    resume: false,
+    journal: path.join(dir, 'journal.json'),
+    plugins: [],
+    issueTemplates: {},
+    apiUrl: 'https://api.github.com',
+    recording: new Recording(dir, 'replay'),
+    ...flags,
+  };
+};
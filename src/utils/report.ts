@@ -0,0 +1,124 @@
+import fs from 'fs';
+
+export type StepStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface StepReport {
+  name: string;
+  status: StepStatus;
+  dryRun: boolean;
+  durationMs: number;
+  details: Record<string, unknown>;
+  error?: string;
+}
+
+export interface IssueReport {
+  step: string;
+  title: string;
+  url?: string;
+}
+
+export interface RepositoryReport {
+  repository: string;
+  from: string;
+  to: string;
+  dryRun: boolean;
+  success: boolean;
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+  steps: StepReport[];
+  issues: IssueReport[];
+}
+
+/* Records the outcome of each step of a migration so that it can be output as JSON */
+
+class Report {
+  repository: string;
+  from: string;
+  to: string;
+  dryRun: boolean;
+
+  startedAt = new Date();
+  finishedAt?: Date;
+  error?: string;
+
+  steps: StepReport[] = [];
+  issues: IssueReport[] = [];
+
+  current?: StepReport;
+
+  constructor(repository: string, from: string, to: string, dryRun: boolean) {
+    this.repository = repository;
+    this.from = from;
+    this.to = to;
+    this.dryRun = dryRun;
+  }
+
+  /* Run a step, recording its status and how long it took */
+
+  async step(name: string, run: () => Promise<void>): Promise<void> {
+    const step: StepReport = { name, status: 'succeeded', dryRun: this.dryRun, durationMs: 0, details: {} };
+    const start = Date.now();
+
+    this.steps.push(step);
+    this.current = step;
+
+    try {
+      await run();
+    } catch (err) {
+      step.status = 'failed';
+      step.error = err.message;
+      throw err;
+    } finally {
+      step.durationMs = Date.now() - start;
+      this.current = undefined;
+    }
+  }
+
+  skip(name: string): void {
+    this.steps.push({ name, status: 'skipped', dryRun: this.dryRun, durationMs: 0, details: {} });
+  }
+
+  /* Add a detail, such as a count of files found, to the step that is running */
+
+  detail(key: string, value: unknown): void {
+    if (this.current) {
+      this.current.details[key] = value;
+    }
+  }
+
+  issue(title: string, url?: string): void {
+    this.issues.push({ step: this.current?.name ?? '', title, url });
+  }
+
+  finish(err?: Error): void {
+    this.finishedAt = new Date();
+    this.error = err?.message;
+  }
+
+  toJSON(): RepositoryReport {
+    return {
+      repository: this.repository,
+      from: this.from,
+      to: this.to,
+      dryRun: this.dryRun,
+      success: !!this.finishedAt && !this.error,
+      error: this.error,
+      startedAt: this.startedAt.toISOString(),
+      durationMs: (this.finishedAt ?? new Date()).getTime() - this.startedAt.getTime(),
+      steps: this.steps,
+      issues: this.issues,
+    };
+  }
+}
+
+/* Serialise the reports for one or more repositories */
+
+export const formatReports = (reports: Report[]): string =>
+  JSON.stringify({ generatedAt: new Date().toISOString(), repositories: reports }, null, 2);
+
+export const writeReports = (path: string, reports: Report[]): void => {
+  fs.writeFileSync(path, formatReports(reports));
+};
+
+export default Report;
@@ -0,0 +1,69 @@
+import Report from './report';
+
+describe('The report class', () => {
+  test('records each step that succeeds with its details', async () => {
+    const report = new Report('owner/repo', 'master', 'main', true);
+
+    await report.step('checkWithUser', async () => {
+      report.detail('openPullRequests', 3);
+    });
+    report.finish();
+
+    const json = report.toJSON();
+    expect(json.success).toBe(true);
+    expect(json.steps).toEqual([
+      expect.objectContaining({
+        name: 'checkWithUser',
+        status: 'succeeded',
+        dryRun: true,
+        details: { openPullRequests: 3 },
+      }),
+    ]);
+  });
+
+  test('records the error of a step that fails and rethrows it', async () => {
+    const report = new Report('owner/repo', 'master', 'main', false);
+
+    await expect(
+      report.step('renameBranch', async () => {
+        throw new Error('this is a test');
+      })
+    ).rejects.toThrow('this is a test');
+    report.finish(new Error('this is a test'));
+
+    const json = report.toJSON();
+    expect(json.success).toBe(false);
+    expect(json.error).toBe('this is a test');
+    expect(json.steps[0]).toMatchObject({ name: 'renameBranch', status: 'failed', error: 'this is a test' });
+  });
+
+  test('records skipped steps', () => {
+    const report = new Report('owner/repo', 'master', 'main', false);
+
+    report.skip('checkOldBranchDoesExist');
+
+    expect(report.toJSON().steps[0]).toMatchObject({ name: 'checkOldBranchDoesExist', status: 'skipped' });
+  });
+
+  test('records issues against the step that is running', async () => {
+    const report = new Report('owner/repo', 'master', 'main', false);
+
+    await report.step('checkReferencesToOldBranch', async () => {
+      report.issue('Check references to master', 'https://github.com/owner/repo/issues/1');
+    });
+
+    expect(report.toJSON().issues).toEqual([
+      {
+        step: 'checkReferencesToOldBranch',
+        title: 'Check references to master',
+        url: 'https://github.com/owner/repo/issues/1',
+      },
+    ]);
+  });
+
+  test('is not successful until it has finished', () => {
+    const report = new Report('owner/repo', 'master', 'main', false);
+
+    expect(report.toJSON().success).toBe(false);
+  });
+});
@@ -0,0 +1,505 @@
+import chalk from 'chalk';
+import * as emoji from 'node-emoji';
+import { getToken } from './auth';
+import GitHub, { migrationLabel } from './github';
+import { Step } from './step';
+import { renameWikiBranch } from './wiki';
+
+interface Issue {
+  number: number;
+  title: string;
+  html_url: string;
+}
+
+/*
+ * Reverts a migration by renaming the new branch back to the old one, undoing the changes recorded in the journal
+ * (the default branch, rulesets, recreated branch protection, GitHub Pages source, environments and wiki branch), and
+ * closing the issues and pull request opened for further changes. The branch names keep the meaning they have when
+ * migrating, so `--from` is the branch that is restored and `--to` is the branch that is renamed.
+ */
+class Rollback extends GitHub {
+  issuesToClose: Issue[] = [];
+  // The pull request opened by `--fix-references`, which GitHub would retarget to the old branch
+  pullRequestToClose?: Issue;
+
+  get steps(): Step[] {
+    return [
+      { name: 'checkRepoExists', run: (): Promise<void> => this.checkRepoExists() },
+      { name: 'checkNewBranchDoesExist', run: (): Promise<void> => this.checkNewBranchDoesExist() },
+      { name: 'checkOldBranchDoesNotExist', run: (): Promise<void> => this.checkOldBranchDoesNotExist() },
+      { name: 'checkAdmin', run: (): Promise<void> => this.checkAdmin() },
+      { name: 'findIssues', run: (): Promise<void> => this.findIssues() },
+      { name: 'findReferencesPullRequest', run: (): Promise<void> => this.findReferencesPullRequest() },
+      { name: 'checkWithUser', run: (): Promise<void> => this.checkWithUser() },
+      { name: 'removeRecreatedProtection', run: (): Promise<void> => this.removeRecreatedProtection() },
+      { name: 'renameBranch', run: (): Promise<void> => this.renameBranch() },
+      { name: 'restoreDefaultBranch', run: (): Promise<void> => this.restoreDefaultBranch() },
+      { name: 'restoreRulesets', run: (): Promise<void> => this.restoreRulesets() },
+      { name: 'restorePages', run: (): Promise<void> => this.restorePages() },
+      { name: 'restoreEnvironments', run: (): Promise<void> => this.restoreEnvironments() },
+      { name: 'restoreWikiBranch', run: (): Promise<void> => this.restoreWikiBranch() },
+      { name: 'closeIssues', run: (): Promise<void> => this.closeIssues() },
+      { name: 'closeReferencesPullRequest', run: (): Promise<void> => this.closeReferencesPullRequest() },
+    ];
+  }
+
+  /* Rolling back is not journalled, but a successful rollback removes the record of the migration */
+
+  async migrate(): Promise<void> {
+    for (const step of this.steps) {
+      try {
+        await this.report.step(step.name, step.run);
+      } catch (err) {
+        this.report.finish(err);
+        throw err;
+      }
+    }
+
+    if (this.execute) {
+      this.journal.remove(this.journalKey);
+    }
+
+    this.report.finish();
+  }
+
+  logComplete(): void {
+    if (this.execute) {
+      this.logger.log(emoji.emojify(`\n:rewind: Rollback complete :rewind:`));
+      this.logger.information(
+        `Local copies of the repository can be updated by running the following commands:
+
+$ git fetch --all
+$ git remote set-head origin -a
+$ git branch --set-upstream-to origin/${this.oldBranchName}
+$ git branch -m ${this.newBranchName} ${this.oldBranchName}
+         `,
+        true
+      );
+    } else {
+      this.logger.information('Dry run complete. Run again with the -x or --execute flag to execute.', true);
+    }
+  }
+
+  /* Steps */
+
+  async checkNewBranchDoesExist(): Promise<void> {
+    const msg = `Checking that the ${this.newBranchName} branch exists`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      await this.octokit.repos.getBranch({
+        owner: this.owner,
+        repo: this.repo,
+        branch: this.newBranchName,
+      });
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async checkOldBranchDoesNotExist(): Promise<void> {
+    const msg = `Checking that the ${this.oldBranchName} branch does not exist`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const branch = await this.octokit.repos.getBranch({
+        owner: this.owner,
+        repo: this.repo,
+        branch: this.oldBranchName,
+      });
+
+      if (branch.status === 200) {
+        throw new Error(`The ${this.oldBranchName} branch already exists`);
+      }
+      spinner.succeed();
+    } catch (err) {
+      if (err.status === 404) {
+        spinner.succeed();
+        return;
+      } else {
+        spinner.fail(err.message);
+        throw err;
+      }
+    }
+  }
+
+  async findIssues(): Promise<void> {
+    const msg = `Finding open issues opened by the migration`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const issues = await this.octokit.paginate('GET /repos/{owner}/{repo}/issues', {
+        owner: this.owner,
+        repo: this.repo,
+        labels: migrationLabel.name,
+        state: 'open',
+        per_page: 100,
+      });
+
+      const titles = this.plugins.reduce(
+        (all: string[], plugin) =>
+          all.concat(
+            Object.entries(plugin.issueTitles ? plugin.issueTitles(this) : {}).map(([key, title]) =>
+              this.issueTitle(key, title)
+            )
+          ),
+        Object.values(this.issueTitles)
+      );
+      this.issuesToClose = issues.filter((issue) => !issue.pull_request && titles.includes(issue.title));
+      this.report.detail('issues', this.issuesToClose.length);
+
+      this.logger.log(`${this.issuesToClose.length} ${this.issuesToClose.length === 1 ? 'issue' : 'issues'} found`);
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async findReferencesPullRequest(): Promise<void> {
+    const msg = `Finding the pull request that updates references to ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const [pr] = await this.octokit.paginate('GET /repos/{owner}/{repo}/pulls', {
+        owner: this.owner,
+        repo: this.repo,
+        head: `${this.owner}:${this.referencesBranch}`,
+        state: 'open',
+        per_page: 100,
+      });
+      this.pullRequestToClose = pr;
+      this.report.detail('pullRequest', pr?.html_url ?? null);
+
+      this.logger.log(pr ? `#${pr.number} ${pr.title} found` : 'No pull request found');
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async checkWithUser(): Promise<void> {
+    const verb = this.execute ? 'will' : 'would';
+    let prompt = `This script ${verb} now rename the ${this.newBranchName} branch back to ${this.oldBranchName} on the ${this.owner}/${this.repo} repository`;
+    const toClose = [...this.issuesToClose, ...(this.pullRequestToClose ? [this.pullRequestToClose] : [])];
+    if (toClose.length) {
+      prompt += ` and close the following issues and pull requests:\n${toClose
+        .map((issue) => `  - #${issue.number} ${issue.title}`)
+        .join('\n')}\n`;
+    } else {
+      prompt += '.';
+    }
+
+    if (this.force) {
+      this.logger.log(chalk.bold(prompt));
+    } else {
+      if (!(await this.confirm(`${prompt}\n  Are you happy to proceed?`))) throw new Error(`Process aborted`);
+    }
+  }
+
+  /*
+   * Protection recreated for the new branch is removed before the branch is renamed back, as GitHub would otherwise
+   * move it onto the old branch alongside the protection that was left behind
+   */
+  async removeRecreatedProtection(): Promise<void> {
+    if (!this.journal.get(this.journalKey)?.protectionRecreated) return;
+
+    const msg = `Removing the branch protection that was recreated for ${this.newBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      if (this.execute) {
+        try {
+          await this.octokit.repos.deleteBranchProtection({
+            owner: this.owner,
+            repo: this.repo,
+            branch: this.newBranchName,
+          });
+        } catch (err) {
+          if (err.status !== 404) throw err;
+          this.logger.log(`${this.newBranchName} is no longer protected`);
+        }
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async renameBranch(): Promise<void> {
+    const msg = `Renaming the branch ${this.newBranchName} back to ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      if (this.execute) {
+        await this.moveBranch(this.newBranchName, this.oldBranchName);
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async restoreDefaultBranch(): Promise<void> {
+    const msg = `Restoring the previous default branch`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const previous = this.journal.get(this.journalKey)?.defaultBranch;
+
+      if (!previous) {
+        this.logger.log('No previous default branch recorded in the journal');
+        spinner.succeed();
+        return;
+      }
+
+      // Renaming the default branch keeps it as the default, so the rename may already have restored it
+      const current = this.defaultBranch === this.newBranchName ? this.oldBranchName : this.defaultBranch;
+      if (current === previous) {
+        this.logger.log(`${previous} is already the default branch`);
+        spinner.succeed();
+        return;
+      }
+
+      this.logger.log(`Setting the default branch to ${previous}`);
+      if (this.execute) {
+        await this.octokit.repos.update({
+          owner: this.owner,
+          repo: this.repo,
+          default_branch: previous,
+        });
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async restoreRulesets(): Promise<void> {
+    const rulesets = this.journal.get(this.journalKey)?.rulesets ?? [];
+    if (!rulesets.length) return;
+
+    const msg = `Restoring the rulesets that were updated to target ${this.newBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const restored: string[] = [];
+      for (const ruleset of rulesets) {
+        this.logger.log(`Restoring the ${ruleset.name} ruleset to target ${this.oldBranchName}`);
+        if (!this.execute) continue;
+
+        try {
+          await this.octokit.repos.updateRepoRuleset({
+            owner: this.owner,
+            repo: this.repo,
+            ruleset_id: ruleset.id,
+            conditions: ruleset.conditions,
+          });
+          restored.push(ruleset.name);
+        } catch (err) {
+          if (err.status !== 404) throw err;
+          this.logger.warn(`The ${ruleset.name} ruleset has been deleted since the migration`);
+        }
+      }
+      this.report.detail('restoredRulesets', restored);
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async restorePages(): Promise<void> {
+    const pagesPath = this.journal.get(this.journalKey)?.pagesPath;
+    if (pagesPath === undefined) return;
+
+    const msg = `Switching the GitHub Pages source back to ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      let site;
+      try {
+        site = await this.octokit.repos.getPages({ owner: this.owner, repo: this.repo });
+      } catch (err) {
+        if (err.status !== 404) throw err;
+      }
+
+      if (!site) {
+        this.logger.log('The repository no longer has a GitHub Pages site');
+      } else if (site.data.source?.branch !== this.newBranchName) {
+        this.logger.log(`The GitHub Pages site is published from ${site.data.source?.branch}`);
+      } else if (this.execute) {
+        await this.updateSetting('GitHub Pages source', () =>
+          this.octokit.repos.updateInformationAboutPagesSite({
+            owner: this.owner,
+            repo: this.repo,
+            source: { branch: this.oldBranchName, path: pagesPath as '/' | '/docs' },
+          })
+        );
+        this.report.detail('pagesSource', { from: this.newBranchName, to: this.oldBranchName, path: pagesPath });
+      } else {
+        this.logger.log(`Would switch the GitHub Pages source from ${this.newBranchName} to ${this.oldBranchName}`);
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async restoreEnvironments(): Promise<void> {
+    const policies = this.journal.get(this.journalKey)?.environments ?? [];
+    if (!policies.length) return;
+
+    const msg = `Restoring the environments that were updated to allow deployments from ${this.newBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const restored: string[] = [];
+      for (const policy of policies) {
+        this.logger.log(`Restoring the deployment branch policy of the ${policy.environment} environment`);
+        if (!this.execute) continue;
+
+        try {
+          await this.updateSetting(`${policy.environment} environment`, () =>
+            this.octokit.repos.updateDeploymentBranchPolicy({
+              owner: this.owner,
+              repo: this.repo,
+              environment_name: policy.environment,
+              branch_policy_id: policy.id,
+              name: this.oldBranchName,
+            })
+          );
+          restored.push(policy.environment);
+        } catch (err) {
+          if (err.status !== 404) throw err;
+          this.logger.warn(`The deployment branch policy of the ${policy.environment} environment has been deleted`);
+        }
+      }
+      this.report.detail('restoredEnvironments', restored);
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async restoreWikiBranch(): Promise<void> {
+    if (!this.journal.get(this.journalKey)?.wikiRenamed) return;
+
+    const msg = `Renaming the ${this.newBranchName} branch of the wiki back to ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const branches = await this.getWikiBranches();
+
+      if (!branches) {
+        this.logger.warn(
+          `The ${this.newBranchName} branch of the wiki can't be checked, so needs to be renamed back to ${this.oldBranchName} by hand`
+        );
+      } else if (!branches.includes(this.newBranchName)) {
+        this.logger.log(`The wiki has no ${this.newBranchName} branch`);
+      } else if (branches.includes(this.oldBranchName)) {
+        this.logger.warn(
+          `The wiki still has its ${this.oldBranchName} branch, so the ${this.newBranchName} branch needs to be deleted by hand`
+        );
+      } else if (this.execute) {
+        const token = await getToken(this.credentials);
+        if (!renameWikiBranch(this.wikiUrl, this.newBranchName, this.oldBranchName, token)) {
+          this.logger.warn(
+            `The wiki's ${this.oldBranchName} branch has been created, but its ${this.newBranchName} branch could not be deleted as the wiki is still served from it`
+          );
+        }
+        this.report.detail('wikiBranch', this.oldBranchName);
+      } else {
+        this.logger.log(`Would rename the ${this.newBranchName} branch of the wiki back to ${this.oldBranchName}`);
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  async closeIssues(): Promise<void> {
+    if (!this.issuesToClose.length) return;
+
+    const msg = `Closing issues opened by the migration`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      this.report.detail(
+        'closedIssues',
+        this.issuesToClose.map((issue) => issue.html_url)
+      );
+
+      for (const issue of this.issuesToClose) {
+        this.logger.log(`Closing #${issue.number} ${issue.title}`);
+        if (this.execute) {
+          await this.octokit.issues.update({
+            owner: this.owner,
+            repo: this.repo,
+            issue_number: issue.number,
+            state: 'closed',
+            state_reason: 'not_planned',
+          });
+        }
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+
+  /* Closing the pull request isn't enough, as its branch would still hold the changes to the references */
+
+  async closeReferencesPullRequest(): Promise<void> {
+    const pr = this.pullRequestToClose;
+    if (!pr) return;
+
+    const msg = `Closing the pull request that updates references to ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      this.report.detail('closedPullRequest', pr.html_url);
+
+      this.logger.log(`Closing #${pr.number} ${pr.title} and deleting the ${this.referencesBranch} branch`);
+      if (this.execute) {
+        await this.octokit.pulls.update({
+          owner: this.owner,
+          repo: this.repo,
+          pull_number: pr.number,
+          state: 'closed',
+        });
+        await this.octokit.git.deleteRef({
+          owner: this.owner,
+          repo: this.repo,
+          ref: `heads/${this.referencesBranch}`,
+        });
+      }
+
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail();
+      throw err;
+    }
+  }
+}
+
+export default Rollback;
@@ -0,0 +1,174 @@
+import Journal from './journal';
+import Recording, { Interaction } from './recording';
+import { collectingLogger, interaction, replayFlags } from './replay.test-helper';
+import Rollback from './rollback';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/* Rolls back a migration of guardian/test offline, which opened an issue and a pull request updating references */
+describe('The rollback class', () => {
+  let dir: string;
+  let messages: string[];
+
+  const referencesBranch = 'master-to-main%2Fupdate-references-to-master';
+
+  const checks = (defaultBranch: string): Interaction[] => [
+    interaction('GET', '/repos/guardian/test', 200, { default_branch: defaultBranch, private: false, has_wiki: false }),
+    interaction('GET', '/repos/guardian/test/branches/main', 200, { name: 'main', commit: { sha: 'abc123' } }),
+    interaction('GET', '/repos/guardian/test/branches/master', 404, { message: 'Branch not found' }),
+    interaction('GET', '/user', 200, { login: 'octocat' }),
+    interaction('GET', '/repos/guardian/test/collaborators/octocat/permission', 200, { permission: 'admin' }),
+    interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, [
+      {
+        number: 12,
+        title: 'Check references to master after renaming it to main',
+        html_url: 'https://github.com/guardian/test/issues/12',
+      },
+      { number: 14, title: 'Tidy up the README', html_url: 'https://github.com/guardian/test/issues/14' },
+      // Opened when another branch was renamed
+      {
+        number: 15,
+        title: 'Update build configuration after renaming develop to dev',
+        html_url: 'https://github.com/guardian/test/issues/15',
+      },
+      {
+        number: 21,
+        title: 'Update references to master',
+        html_url: 'https://github.com/guardian/test/pull/21',
+        pull_request: {},
+      },
+    ]),
+    interaction('GET', `/repos/guardian/test/pulls?head=guardian%3A${referencesBranch}&state=open&per_page=100`, 200, [
+      { number: 21, title: 'Update references to master', html_url: 'https://github.com/guardian/test/pull/21' },
+    ]),
+  ];
+
+  const rollback = async (execute: boolean, interactions: Interaction[]): Promise<Rollback> => {
+    const flags = replayFlags(dir, interactions, { execute });
+    const rollback = new Rollback('guardian', 'test', 'token', collectingLogger(messages), flags);
+    await rollback.run();
+
+    // Every recorded request was made, including those that change the repository
+    expect((flags.recording as Recording).used.size).toBe(interactions.length);
+    return rollback;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-rollback-'));
+    messages = [];
+
+    const journal = new Journal(path.join(dir, 'journal.json'));
+    journal.start('guardian/test', 'master', 'main');
+    journal.recordDefaultBranch('guardian/test', 'master');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('lists what would be rolled back in a dry run', async () => {
+    const gh = await rollback(false, checks('main'));
+
+    const report = gh.report.toJSON();
+    expect(report.error).toBeUndefined();
+    expect(report.steps.every((step) => step.status === 'succeeded' && step.dryRun)).toBe(true);
+    expect(gh.issuesToClose.map((issue) => issue.number)).toEqual([12]);
+    expect(gh.pullRequestToClose?.number).toBe(21);
+    // Renaming the branch back keeps it as the default branch
+    expect(messages).toContain('master is already the default branch');
+    expect(messages).toContain('Closing #12 Check references to master after renaming it to main');
+    expect(new Journal(path.join(dir, 'journal.json')).get('guardian/test')).toBeDefined();
+  });
+
+  test('renames the branch back, restores the default branch and closes the issues when executed', async () => {
+    const conditions = { ref_name: { include: ['refs/heads/master'], exclude: [] } };
+    new Journal(path.join(dir, 'journal.json')).recordRuleset('guardian/test', { id: 1, name: 'Protect', conditions });
+
+    const gh = await rollback(true, [
+      // The default branch was changed after the migration
+      ...checks('develop'),
+      interaction('POST', '/repos/guardian/test/branches/main/rename', 201, { name: 'master' }, { new_name: 'master' }),
+      interaction('PATCH', '/repos/guardian/test', 200, { default_branch: 'master' }, { default_branch: 'master' }),
+      interaction('PUT', '/repos/guardian/test/rulesets/1', 200, { id: 1, conditions }, { conditions }),
+      interaction(
+        'PATCH',
+        '/repos/guardian/test/issues/12',
+        200,
+        { number: 12, state: 'closed' },
+        { state: 'closed', state_reason: 'not_planned' }
+      ),
+      interaction('PATCH', '/repos/guardian/test/pulls/21', 200, { number: 21, state: 'closed' }, { state: 'closed' }),
+      interaction('DELETE', `/repos/guardian/test/git/refs/heads%2F${referencesBranch}`, 204, undefined),
+    ]);
+
+    const report = gh.report.toJSON();
+    expect(report.error).toBeUndefined();
+    expect(report.steps.find((step) => step.name === 'closeIssues')?.details).toMatchObject({
+      closedIssues: ['https://github.com/guardian/test/issues/12'],
+    });
+    expect(messages).toContain('Setting the default branch to master');
+    expect(report.steps.find((step) => step.name === 'restoreRulesets')?.details).toEqual({
+      restoredRulesets: ['Protect'],
+    });
+    expect(messages).toContain('\n⏪ Rollback complete ⏪');
+    expect(new Journal(path.join(dir, 'journal.json')).get('guardian/test')).toBeUndefined();
+  });
+
+  test('undoes the changes to protection, GitHub Pages and environments recorded in the journal', async () => {
+    const journal = new Journal(path.join(dir, 'journal.json'));
+    journal.recordProtectionRecreated('guardian/test');
+    journal.recordPagesPath('guardian/test', '/docs');
+    journal.recordEnvironmentPolicy('guardian/test', { environment: 'production', id: 5 });
+
+    const gh = await rollback(true, [
+      ...checks('main'),
+      interaction('DELETE', '/repos/guardian/test/branches/main/protection', 204, undefined),
+      interaction('POST', '/repos/guardian/test/branches/main/rename', 201, { name: 'master' }, { new_name: 'master' }),
+      interaction('GET', '/repos/guardian/test/pages', 200, {
+        build_type: 'legacy',
+        source: { branch: 'main', path: '/docs' },
+      }),
+      interaction('PUT', '/repos/guardian/test/pages', 204, undefined, { source: { branch: 'master', path: '/docs' } }),
+      interaction(
+        'PUT',
+        '/repos/guardian/test/environments/production/deployment-branch-policies/5',
+        200,
+        { id: 5, name: 'master' },
+        { name: 'master' }
+      ),
+      interaction(
+        'PATCH',
+        '/repos/guardian/test/issues/12',
+        200,
+        { number: 12, state: 'closed' },
+        { state: 'closed', state_reason: 'not_planned' }
+      ),
+      interaction('PATCH', '/repos/guardian/test/pulls/21', 200, { number: 21, state: 'closed' }, { state: 'closed' }),
+      interaction('DELETE', `/repos/guardian/test/git/refs/heads%2F${referencesBranch}`, 204, undefined),
+    ]);
+
+    const report = gh.report.toJSON();
+    expect(report.error).toBeUndefined();
+    const names = report.steps.map((step) => step.name);
+    expect(names.indexOf('removeRecreatedProtection')).toBeLessThan(names.indexOf('renameBranch'));
+    expect(report.steps.find((step) => step.name === 'restorePages')?.details).toEqual({
+      pagesSource: { from: 'main', to: 'master', path: '/docs' },
+    });
+    expect(report.steps.find((step) => step.name === 'restoreEnvironments')?.details).toEqual({
+      restoredEnvironments: ['production'],
+    });
+  });
+
+  test('stops before renaming the branch back if the old branch exists', async () => {
+    const interactions = checks('main');
+    interactions[2] = interaction('GET', '/repos/guardian/test/branches/master', 200, { name: 'master' });
+    const flags = replayFlags(dir, interactions, { execute: true });
+
+    const gh = new Rollback('guardian', 'test', 'token', collectingLogger(messages), flags);
+    await gh.run();
+
+    expect(gh.report.toJSON().error).toBe('The master branch already exists');
+    expect(gh.report.toJSON().steps.map((step) => step.name)).not.toContain('renameBranch');
+  });
+});
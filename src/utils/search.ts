@@ -0,0 +1,157 @@
+import { Octokit } from '@octokit/rest';
+import Logger from './logger';
+
+export interface LineMatch {
+  line: number;
+  text: string;
+}
+
+export interface FileMatch {
+  path: string;
+  sha: string;
+  matches: LineMatch[];
+}
+
+export interface SearchOptions {
+  owner: string;
+  repo: string;
+  // The branch that is scanned when not using code search, which only covers the default branch
+  ref: string;
+  // Text to find in the files, matched as a whole word
+  term?: string;
+  // Only find files with this name, in any directory
+  filename?: string;
+  // Scan the repository tree rather than using code search
+  scanTree?: boolean;
+}
+
+// Files larger than this are skipped when scanning the tree, as they are unlikely to be configuration
+const maxScanSize = 1024 * 1024;
+
+const maxSnippetLength = 120;
+const maxLinesPerFile = 5;
+
+/* Escape the characters that have a meaning in regular expressions, so the value is matched as it is */
+
+export const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/* The lines that contain the term, trimmed to a short snippet */
+
+export const findMatches = (content: string, term: string): LineMatch[] => {
+  const pattern = new RegExp(`\\b${escapeRegExp(term)}\\b`);
+
+  return content.split('\n').reduce((matches: LineMatch[], text, index) => {
+    if (!pattern.test(text)) return matches;
+
+    const trimmed = text.trim();
+    return [
+      ...matches,
+      {
+        line: index + 1,
+        text: trimmed.length > maxSnippetLength ? `${trimmed.slice(0, maxSnippetLength - 1)}…` : trimmed,
+      },
+    ];
+  }, []);
+};
+
+/* A markdown checklist of the files, with a link to each matching line and a snippet of it */
+
+export const formatMatches = (files: FileMatch[], blobUrl: string): string =>
+  files
+    .map((file) => {
+      const lines = file.matches
+        .slice(0, maxLinesPerFile)
+        .map(
+          (match) =>
+            `  - [L${match.line}](${blobUrl}/${file.path}#L${match.line}): \`${match.text.replace(/`/g, "'")}\``
+        );
+      if (file.matches.length > maxLinesPerFile) {
+        lines.push(`  - and ${file.matches.length - maxLinesPerFile} more`);
+      }
+      return [`- [ ] [${file.path}](${blobUrl}/${file.path})`, ...lines].join('\n');
+    })
+    .join('\n');
+
+const matchesFilename = (path: string, filename?: string): boolean =>
+  !filename || path === filename || path.endsWith(`/${filename}`);
+
+const readBlob = async (octokit: Octokit, options: SearchOptions, sha: string): Promise<string> => {
+  const blob = await octokit.git.getBlob({
+    owner: options.owner,
+    repo: options.repo,
+    file_sha: sha,
+  });
+  return Buffer.from(blob.data.content, 'base64').toString('utf8');
+};
+
+/* Find files with code search, going through every page of results */
+
+const searchCode = async (octokit: Octokit, options: SearchOptions): Promise<FileMatch[]> => {
+  const q = [
+    `repo:${options.owner}/${options.repo}`,
+    ...(options.filename ? [`filename:${options.filename}`] : []),
+    ...(options.term ? [options.term] : []),
+  ].join(' ');
+  const items = await octokit.paginate('GET /search/code', { q, per_page: 100 });
+
+  const files: FileMatch[] = [];
+  for (const item of items) {
+    // Code search can return other files with the same name, such as riff-raff.yaml.template
+    if (!matchesFilename(item.path, options.filename)) continue;
+
+    const matches = options.term ? findMatches(await readBlob(octokit, options, item.sha), options.term) : [];
+    files.push({ path: item.path, sha: item.sha, matches });
+  }
+  return files;
+};
+
+/* Find files by reading every file in the branch, for repositories that code search doesn't cover */
+
+const scanTree = async (octokit: Octokit, logger: Logger, options: SearchOptions): Promise<FileMatch[]> => {
+  const tree = await octokit.git.getTree({
+    owner: options.owner,
+    repo: options.repo,
+    tree_sha: options.ref,
+    recursive: 'true',
+  });
+  if (tree.data.truncated) {
+    logger.warn(`The repository is too large to list every file, so only some of its files have been scanned`);
+  }
+
+  const files: FileMatch[] = [];
+  for (const entry of tree.data.tree) {
+    if (entry.type !== 'blob' || !entry.path || !entry.sha) continue;
+    if (!matchesFilename(entry.path, options.filename)) continue;
+
+    if (!options.term) {
+      files.push({ path: entry.path, sha: entry.sha, matches: [] });
+      continue;
+    }
+    if ((entry.size ?? 0) > maxScanSize) continue;
+
+    const content = await readBlob(octokit, options, entry.sha);
+    // Skip binary files
+    if (content.includes('\u0000')) continue;
+
+    const matches = findMatches(content, options.term);
+    if (matches.length) files.push({ path: entry.path, sha: entry.sha, matches });
+  }
+  return files;
+};
+
+/*
+ * Find the files that contain a term or have a name. Code search is used unless scanning the tree is asked for, and
+ * the tree is scanned instead if code search is unavailable, such as for repositories that haven't been indexed.
+ */
+export const findFiles = async (octokit: Octokit, logger: Logger, options: SearchOptions): Promise<FileMatch[]> => {
+  if (options.scanTree) return scanTree(octokit, logger, options);
+
+  try {
+    return await searchCode(octokit, options);
+  } catch (err) {
+    if (![403, 422, 503].includes(err.status)) throw err;
+
+    logger.log(`Code search is unavailable (${err.message}). Scanning the files in ${options.ref} instead`);
+    return scanTree(octokit, logger, options);
+  }
+};
@@ -0,0 +1,41 @@
+import { findMatches, formatMatches } from './search';
+
+describe('The findMatches function', () => {
+  test('returns the number and trimmed text of each line containing the term', () => {
+    const content = `on:
+  push:
+    branches: [ master ]
+# The mastery of this workflow
+    - run: git push origin master`;
+
+    expect(findMatches(content, 'master')).toEqual([
+      { line: 3, text: 'branches: [ master ]' },
+      { line: 5, text: '- run: git push origin master' },
+    ]);
+  });
+
+  test('shortens long lines', () => {
+    const [match] = findMatches(`master ${'a'.repeat(200)}`, 'master');
+
+    expect(match.text).toHaveLength(120);
+    expect(match.text.endsWith('…')).toBe(true);
+  });
+});
+
+describe('The formatMatches function', () => {
+  test('lists each file with links to the matching lines', () => {
+    const url = 'https://github.com/guardian/test/blob/main';
+
+    expect(
+      formatMatches(
+        [
+          { path: 'README.md', sha: 'a', matches: [{ line: 2, text: 'Merge to `master`' }] },
+          { path: 'riff-raff.yaml', sha: 'b', matches: [] },
+        ],
+        url
+      )
+    ).toBe(`- [ ] [README.md](${url}/README.md)
+  - [L2](${url}/README.md#L2): \`Merge to 'master'\`
+- [ ] [riff-raff.yaml](${url}/riff-raff.yaml)`);
+  });
+});
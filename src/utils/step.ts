@@ -0,0 +1,9 @@
+/* A step of a migration, rollback or local update, run in order and recorded in the report */
+
+export interface Step {
+  name: string;
+  run: () => Promise<void>;
+  // Run again when resuming rather than skipped, as later steps depend on what it finds. Only for steps that don't
+  // change anything
+  rerun?: boolean;
+}
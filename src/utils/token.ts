@@ -0,0 +1,103 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createInstallationAuth, Credentials } from './auth';
+import Logger from './logger';
+import { webUrl } from './octokit';
+import Recording from './recording';
+
+export interface ResolvedToken {
+  token: string;
+  source: string;
+}
+
+// The same order as the gh CLI, so that both use the same identity when both variables are set
+const fromEnvironment = (): ResolvedToken | undefined => {
+  for (const name of ['GH_TOKEN', 'GITHUB_TOKEN']) {
+    const token = process.env[name];
+    if (token) return { token, source: `the ${name} environment variable` };
+  }
+};
+
+/* Read the token stored by the gh CLI, which keeps a hosts.yml file with an `oauth_token` for each host */
+
+const fromGhConfig = (host: string): ResolvedToken | undefined => {
+  const dir =
+    process.env.GH_CONFIG_DIR ?? path.join(process.env.XDG_CONFIG_HOME ?? path.join(os.homedir(), '.config'), 'gh');
+  const file = path.join(dir, 'hosts.yml');
+  if (!fs.existsSync(file)) return;
+
+  let inHost = false;
+  for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+    if (/^\S/.test(line)) {
+      inHost = line.replace(/['":\s]/g, '') === host;
+    } else if (inHost) {
+      const match = /^\s+oauth_token:\s*['"]?([^'"\s]+)/.exec(line);
+      if (match) return { token: match[1], source: `the gh CLI config at ${file}` };
+    }
+  }
+};
+
+/* Ask git for the credentials it has stored for the host, without prompting */
+
+const fromGitCredential = (host: string): ResolvedToken | undefined => {
+  const result = spawnSync('git', ['credential', 'fill'], {
+    input: `protocol=https\nhost=${host}\n\n`,
+    encoding: 'utf8',
+    env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GCM_INTERACTIVE: 'never' },
+    timeout: 10000,
+  });
+  if (result.status !== 0 || !result.stdout) return;
+
+  const match = /^password=(.+)$/m.exec(result.stdout);
+  if (match) return { token: match[1], source: 'git credential fill' };
+};
+
+/*
+ * Find a token to authenticate against the GitHub API, looking in the environment, then the gh CLI config and then
+ * the git credential helpers
+ */
+export const resolveToken = (host = 'github.com'): ResolvedToken | undefined =>
+  fromEnvironment() ?? fromGhConfig(host) ?? fromGitCredential(host);
+
+/*
+ * The credentials for a command: a GitHub App installation when an app ID and private key are given, otherwise the
+ * token passed as an argument or one found in the environment
+ */
+export const resolveCredentials = async (
+  options: {
+    token?: string;
+    appId?: string;
+    privateKey?: string;
+    installationId?: number;
+    owner: string;
+    apiUrl: string;
+    recording?: Recording;
+  },
+  logger: Logger
+): Promise<Credentials> => {
+  if (options.appId && options.privateKey) {
+    if (options.token) {
+      throw new Error('An access token cannot be used when authenticating as a GitHub App');
+    }
+    return createInstallationAuth(
+      options.appId,
+      options.privateKey,
+      options.owner,
+      options.apiUrl,
+      options.installationId,
+      options.recording
+    );
+  }
+  if (options.token) return options.token;
+
+  const resolved = resolveToken(new URL(webUrl(options.apiUrl)).host);
+  if (!resolved) {
+    throw new Error(
+      'No access token found. Pass one as an argument, set the GITHUB_TOKEN environment variable or log in with `gh auth login`'
+    );
+  }
+  logger.debug(`Using the access token from ${resolved.source}`);
+  return resolved.token;
+};
@@ -0,0 +1,50 @@
+import { resolveToken } from './token';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The resolveToken function', () => {
+  const env = process.env;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-gh-'));
+    process.env = { ...env, GH_CONFIG_DIR: dir };
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.GH_TOKEN;
+  });
+
+  afterEach(() => {
+    process.env = env;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('uses the GH_TOKEN environment variable first, as the gh CLI does', () => {
+    process.env.GITHUB_TOKEN = 'github-token';
+    process.env.GH_TOKEN = 'gh-token';
+
+    expect(resolveToken()).toEqual({ token: 'gh-token', source: 'the GH_TOKEN environment variable' });
+  });
+
+  test('uses the GITHUB_TOKEN environment variable', () => {
+    process.env.GITHUB_TOKEN = 'github-token';
+
+    expect(resolveToken()).toEqual({ token: 'github-token', source: 'the GITHUB_TOKEN environment variable' });
+  });
+
+  test('reads the token for the host from the gh CLI config', () => {
+    fs.writeFileSync(
+      path.join(dir, 'hosts.yml'),
+      `github.example.com:
+    oauth_token: enterprise-token
+github.com:
+    user: octocat
+    oauth_token: gh-config-token
+    git_protocol: https
+`
+    );
+
+    expect(resolveToken()?.token).toBe('gh-config-token');
+    expect(resolveToken('github.example.com')?.token).toBe('enterprise-token');
+  });
+});
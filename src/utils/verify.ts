@@ -0,0 +1,268 @@
+import * as emoji from 'node-emoji';
+import GitHub, { migrationLabel } from './github';
+import { Step } from './step';
+import { compareProtection, rulesetAppliesTo } from './protection';
+
+interface CommitStatus {
+  context: string;
+  state: string;
+}
+
+interface CheckRun {
+  name: string;
+  status: string;
+  conclusion: string | null;
+}
+
+/* The items of a markdown checklist that haven't been ticked */
+
+export const uncheckedItems = (body: string): string[] =>
+  body
+    .split('\n')
+    .map((line) => /^\s*[-*] \[ \] (.+)$/.exec(line))
+    .reduce((items: string[], match) => (match ? [...items, match[1].trim()] : items), []);
+
+/* The commit statuses and check runs of a commit that haven't passed, including any that are still running */
+
+export const failingChecks = (statuses: CommitStatus[], checkRuns: CheckRun[]): string[] => [
+  ...statuses.filter((status) => status.state !== 'success').map((status) => `${status.context} (${status.state})`),
+  ...checkRuns
+    .filter((run) => run.status !== 'completed' || !['success', 'neutral', 'skipped'].includes(run.conclusion ?? ''))
+    .map((run) => `${run.name} (${run.status === 'completed' ? run.conclusion : run.status})`),
+];
+
+/*
+ * Checks that a migration has landed: the default branch has the new name, nothing refers to the old branch and the
+ * follow-up work is done. Every check is run, rather than stopping at the first that fails, so that everything left
+ * to do is listed at once.
+ */
+class Verification extends GitHub {
+  get steps(): Step[] {
+    return [
+      { name: 'checkDefaultBranch', run: (): Promise<void> => this.checkDefaultBranch() },
+      { name: 'checkOldBranchIsGone', run: (): Promise<void> => this.checkOldBranchIsGone() },
+      { name: 'checkPullRequestsRetargeted', run: (): Promise<void> => this.checkPullRequestsRetargeted() },
+      { name: 'checkNewBranchProtection', run: (): Promise<void> => this.checkNewBranchProtection() },
+      { name: 'checkCommitStatus', run: (): Promise<void> => this.checkCommitStatus() },
+      { name: 'checkIssuesComplete', run: (): Promise<void> => this.checkIssuesComplete() },
+    ];
+  }
+
+  async run(): Promise<void> {
+    return this.migrate()
+      .then(() => this.logComplete())
+      .catch((err: Error) => {
+        this.logger.error(err);
+      });
+  }
+
+  async migrate(): Promise<void> {
+    let failures = 0;
+    for (const step of this.steps) {
+      try {
+        await this.report.step(step.name, step.run);
+      } catch (err) {
+        failures++;
+      }
+    }
+
+    const error = failures
+      ? new Error(`${failures} of ${this.steps.length} checks failed for ${this.owner}/${this.repo}`)
+      : undefined;
+    this.report.finish(error);
+    if (error) throw error;
+  }
+
+  logComplete(): void {
+    this.logger.log(
+      emoji.emojify(`\n:white_check_mark: ${this.owner}/${this.repo} has been migrated to ${this.newBranchName}`)
+    );
+  }
+
+  /* Steps */
+
+  async checkDefaultBranch(): Promise<void> {
+    const msg = `Checking that the default branch is ${this.newBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const repo = await this.octokit.repos.get({ owner: this.owner, repo: this.repo });
+      this.defaultBranch = repo.data.default_branch;
+
+      if (this.defaultBranch !== this.newBranchName) {
+        throw new Error(`The default branch is ${this.defaultBranch}`);
+      }
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail(`${msg} - ${err.message}`);
+      throw err;
+    }
+  }
+
+  async checkOldBranchIsGone(): Promise<void> {
+    const msg = `Checking that the ${this.oldBranchName} branch no longer exists`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      // Renamed branches redirect to their new name, so the old branch only exists if it is returned under its own name
+      const branch = await this.octokit.repos.getBranch({
+        owner: this.owner,
+        repo: this.repo,
+        branch: this.oldBranchName,
+      });
+
+      if (branch.data.name === this.oldBranchName) {
+        throw new Error(`The ${this.oldBranchName} branch still exists`);
+      }
+      spinner.succeed();
+    } catch (err) {
+      if (err.status === 404) {
+        spinner.succeed();
+        return;
+      }
+      spinner.fail(`${msg} - ${err.message}`);
+      throw err;
+    }
+  }
+
+  async checkPullRequestsRetargeted(): Promise<void> {
+    const msg = `Checking that no open pull requests target ${this.oldBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const prs = await this.getOpenPullRequests(this.oldBranchName);
+      this.report.detail('pullRequests', prs.length);
+
+      if (prs.length) {
+        prs.forEach((pr) => this.logger.log(`#${pr.number} ${pr.title} - ${pr.url}`));
+        throw new Error(
+          `${prs.length} open pull ${prs.length === 1 ? 'request targets' : 'requests target'} ${this.oldBranchName}`
+        );
+      }
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail(`${msg} - ${err.message}`);
+      throw err;
+    }
+  }
+
+  /*
+   * The new branch should be protected by branch protection or a ruleset. When the journal recorded the protection
+   * of the old branch, the new branch should have the same settings, and an unprotected old branch is allowed.
+   */
+  async checkNewBranchProtection(): Promise<void> {
+    const msg = `Checking the branch protection of ${this.newBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const after = await this.getProtection(this.newBranchName);
+      const rulesets = (await this.getRulesets()).filter(
+        (ruleset) =>
+          (!ruleset.target || ruleset.target === 'branch') &&
+          rulesetAppliesTo(ruleset.conditions ?? {}, this.newBranchName, this.defaultBranch === this.newBranchName)
+      );
+      const before = this.journal.get(this.journalKey)?.protection;
+      this.report.detail('protected', !!after);
+      this.report.detail('rulesets', rulesets.length);
+
+      if (!after && !rulesets.length) {
+        if (before !== null) {
+          throw new Error(`${this.newBranchName} is not protected by branch protection or a ruleset`);
+        }
+        this.logger.log(`${this.oldBranchName} was not protected before the migration`);
+      }
+
+      if (after && before) {
+        const differences = compareProtection(before, after);
+        if (differences.length) {
+          differences.forEach((difference) => this.logger.log(difference));
+          throw new Error(`The protection of ${this.newBranchName} differs from ${this.oldBranchName}`);
+        }
+      }
+
+      rulesets.forEach((ruleset) => this.logger.log(`Protected by the ${ruleset.name} ruleset`));
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail(`${msg} - ${err.message}`);
+      throw err;
+    }
+  }
+
+  async checkCommitStatus(): Promise<void> {
+    const msg = `Checking the status of the latest commit on ${this.newBranchName}`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const branch = await this.octokit.repos.getBranch({
+        owner: this.owner,
+        repo: this.repo,
+        branch: this.newBranchName,
+      });
+      const ref = branch.data.commit.sha;
+
+      const status = await this.octokit.repos.getCombinedStatusForRef({ owner: this.owner, repo: this.repo, ref });
+      const checkRuns = await this.octokit.checks.listForRef({
+        owner: this.owner,
+        repo: this.repo,
+        ref,
+        per_page: 100,
+      });
+
+      const failing = failingChecks(status.data.statuses, checkRuns.data.check_runs);
+      this.report.detail('commit', ref);
+      this.report.detail('failingChecks', failing);
+
+      if (failing.length) {
+        failing.forEach((check) => this.logger.log(check));
+        throw new Error(
+          `${failing.length} of the checks on ${ref.slice(0, 7)} ${failing.length === 1 ? 'has' : 'have'} not passed`
+        );
+      }
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail(`${msg} - ${err.message}`);
+      throw err;
+    }
+  }
+
+  /* Closed issues are taken as done, whether or not their checklists were ticked */
+
+  async checkIssuesComplete(): Promise<void> {
+    const msg = `Checking that the checklists of the open ${migrationLabel.name} issues are complete`;
+
+    const spinner = this.logger.spin(msg);
+    try {
+      const issues = await this.octokit.paginate('GET /repos/{owner}/{repo}/issues', {
+        owner: this.owner,
+        repo: this.repo,
+        labels: migrationLabel.name,
+        state: 'open',
+        per_page: 100,
+      });
+
+      const incomplete = issues
+        .filter((issue) => !issue.pull_request)
+        .map((issue) => ({ issue, unchecked: uncheckedItems(issue.body ?? '') }))
+        .filter(({ unchecked }) => unchecked.length);
+      this.report.detail(
+        'incompleteIssues',
+        incomplete.map(({ issue }) => issue.html_url)
+      );
+
+      if (incomplete.length) {
+        incomplete.forEach(({ issue, unchecked }) =>
+          this.logger.log(`#${issue.number} ${issue.title} has ${unchecked.length} unchecked items - ${issue.html_url}`)
+        );
+        throw new Error(
+          `${incomplete.length} of the issues ${incomplete.length === 1 ? 'has' : 'have'} unchecked items`
+        );
+      }
+      spinner.succeed();
+    } catch (err) {
+      spinner.fail(`${msg} - ${err.message}`);
+      throw err;
+    }
+  }
+}
+
+export default Verification;
@@ -0,0 +1,154 @@
+import Verification, { failingChecks, uncheckedItems } from './verify';
+import Journal from './journal';
+import { Interaction } from './recording';
+import { collectingLogger, interaction, replayFlags } from './replay.test-helper';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The uncheckedItems function', () => {
+  test('lists the items of a checklist that have not been ticked', () => {
+    const body = ['Some text', '- [x] Update the workflows', '- [ ] Update the README', '  * [ ] Update the wiki'];
+
+    expect(uncheckedItems(body.join('\n'))).toEqual(['Update the README', 'Update the wiki']);
+  });
+
+  test('returns nothing for a body without a checklist', () => {
+    expect(uncheckedItems('Check the references to master')).toEqual([]);
+  });
+});
+
+describe('The failingChecks function', () => {
+  test('lists statuses and check runs that have not passed', () => {
+    expect(
+      failingChecks(
+        [
+          { context: 'ci/build', state: 'success' },
+          { context: 'ci/deploy', state: 'pending' },
+        ],
+        [
+          { name: 'test', status: 'completed', conclusion: 'success' },
+          { name: 'lint', status: 'completed', conclusion: 'skipped' },
+          { name: 'e2e', status: 'completed', conclusion: 'failure' },
+          { name: 'build', status: 'in_progress', conclusion: null },
+        ]
+      )
+    ).toEqual(['ci/deploy (pending)', 'e2e (failure)', 'build (in_progress)']);
+  });
+});
+
+describe('The verification class', () => {
+  let dir: string;
+  let messages: string[];
+
+  const head = { name: 'main', commit: { sha: 'abc1234567' } };
+
+  const verify = async (interactions: Interaction[]): Promise<Verification> => {
+    const verification = new Verification(
+      'guardian',
+      'test',
+      'token',
+      collectingLogger(messages),
+      replayFlags(dir, interactions)
+    );
+    await verification.run();
+    return verification;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-verify-'));
+    messages = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('passes when everything has been migrated', async () => {
+    const verification = await verify([
+      interaction('GET', '/repos/guardian/test', 200, { default_branch: 'main' }),
+      // The old branch redirects to the new branch once it has been renamed
+      interaction('GET', '/repos/guardian/test/branches/master', 200, head),
+      interaction('GET', '/repos/guardian/test/pulls?base=master&state=open&per_page=100', 200, []),
+      interaction('GET', '/repos/guardian/test/branches/main/protection', 404, { message: 'Branch not protected' }),
+      interaction('GET', '/repos/guardian/test/rulesets?includes_parents=true&per_page=100', 200, [{ id: 1 }]),
+      interaction('GET', '/repos/guardian/test/rulesets/1?includes_parents=true', 200, {
+        id: 1,
+        name: 'Protect the default branch',
+        target: 'branch',
+        source: 'guardian/test',
+        conditions: { ref_name: { include: ['~DEFAULT_BRANCH'], exclude: [] } },
+      }),
+      interaction('GET', '/repos/guardian/test/branches/main', 200, head),
+      interaction('GET', '/repos/guardian/test/commits/abc1234567/status', 200, {
+        state: 'success',
+        statuses: [{ context: 'ci/build', state: 'success' }],
+      }),
+      interaction('GET', '/repos/guardian/test/commits/abc1234567/check-runs?per_page=100', 200, {
+        total_count: 1,
+        check_runs: [{ name: 'test', status: 'completed', conclusion: 'success' }],
+      }),
+      interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, [
+        {
+          number: 12,
+          title: 'Check references to master after renaming it to main',
+          body: '- [x] README.md',
+          html_url: 'https://github.com',
+        },
+      ]),
+    ]);
+
+    const report = verification.report.toJSON();
+    expect(report.error).toBeUndefined();
+    expect(report.steps.map((step) => step.status)).toEqual(Array(6).fill('succeeded'));
+    expect(messages).toContain('\n✅ guardian/test has been migrated to main');
+  });
+
+  test('runs every check and fails with the number that failed', async () => {
+    new Journal(path.join(dir, 'journal.json')).start('guardian/test', 'master', 'main');
+    new Journal(path.join(dir, 'journal.json')).recordProtection('guardian/test', null);
+
+    const verification = await verify([
+      interaction('GET', '/repos/guardian/test', 200, { default_branch: 'master' }),
+      interaction('GET', '/repos/guardian/test/branches/master', 200, { name: 'master' }),
+      interaction('GET', '/repos/guardian/test/pulls?base=master&state=open&per_page=100', 200, [
+        {
+          number: 7,
+          title: 'Add a feature',
+          html_url: 'https://github.com/guardian/test/pull/7',
+          created_at: '2020-10-01T00:00:00Z',
+          head: { repo: { full_name: 'guardian/test' } },
+        },
+      ]),
+      interaction('GET', '/repos/guardian/test/branches/main/protection', 404, { message: 'Branch not protected' }),
+      interaction('GET', '/repos/guardian/test/rulesets?includes_parents=true&per_page=100', 200, []),
+      interaction('GET', '/repos/guardian/test/branches/main', 200, head),
+      interaction('GET', '/repos/guardian/test/commits/abc1234567/status', 200, { state: 'pending', statuses: [] }),
+      interaction('GET', '/repos/guardian/test/commits/abc1234567/check-runs?per_page=100', 200, {
+        total_count: 1,
+        check_runs: [{ name: 'test', status: 'completed', conclusion: 'failure' }],
+      }),
+      interaction('GET', '/repos/guardian/test/issues?labels=master-to-main&state=open&per_page=100', 200, [
+        {
+          number: 12,
+          title: 'Check references to master after renaming it to main',
+          body: '- [ ] README.md',
+          html_url: 'https://github.com',
+        },
+      ]),
+    ]);
+
+    const report = verification.report.toJSON();
+    expect(report.error).toBe('5 of 6 checks failed for guardian/test');
+    expect(report.steps.map((step) => [step.name, step.status])).toEqual([
+      ['checkDefaultBranch', 'failed'],
+      ['checkOldBranchIsGone', 'failed'],
+      ['checkPullRequestsRetargeted', 'failed'],
+      // The old branch wasn't protected before the migration either
+      ['checkNewBranchProtection', 'succeeded'],
+      ['checkCommitStatus', 'failed'],
+      ['checkIssuesComplete', 'failed'],
+    ]);
+    expect(messages).toContain('5 of 6 checks failed for guardian/test');
+  });
+});
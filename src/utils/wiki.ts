@@ -0,0 +1,70 @@
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/*
+ * Wikis are separate git repositories that can only be changed with git, so renaming their branch means pushing the
+ * branch under its new name and deleting the old one. The token is passed to git in the environment rather than as
+ * an argument or in the URL, so that it doesn't show up in the process list or in error messages.
+ */
+
+// Listing branches should be quick, while cloning and pushing take longer for wikis with many pages or images
+const quick = 10000;
+const slow = 120000;
+
+const git = (args: string[], token?: string, cwd?: string, timeout = quick): string => {
+  const env: Record<string, string | undefined> = { ...process.env, GIT_TERMINAL_PROMPT: '0' };
+  if (token) {
+    env.GIT_CONFIG_COUNT = '1';
+    env.GIT_CONFIG_KEY_0 = 'http.extraHeader';
+    env.GIT_CONFIG_VALUE_0 = `Authorization: Basic ${Buffer.from(`x-access-token:${token}`).toString('base64')}`;
+  }
+
+  const result = spawnSync('git', args, { cwd, encoding: 'utf8', env, timeout });
+  if (result.error) {
+    throw (result.error as NodeJS.ErrnoException).code === 'ETIMEDOUT'
+      ? new Error(`git ${args[0]} timed out after ${timeout / 1000} seconds`)
+      : result.error;
+  }
+  if (result.status !== 0) {
+    throw new Error(`git ${args[0]} failed - ${result.stderr.trim()}`);
+  }
+  return result.stdout.trim();
+};
+
+/* The branches of a wiki, or undefined if the wiki has never been created */
+
+export const listWikiBranches = (url: string, token?: string): string[] | undefined => {
+  let heads: string;
+  try {
+    heads = git(['ls-remote', '--heads', url], token);
+  } catch (err) {
+    return undefined;
+  }
+  return heads
+    .split('\n')
+    .map((line) => line.replace(/^\S+\s+refs\/heads\//, ''))
+    .filter(Boolean);
+};
+
+/*
+ * Rename the branch of a wiki using a temporary bare clone. Returns false if the new branch was pushed but the old
+ * branch couldn't be deleted, which happens when the server won't delete the branch it serves the wiki from.
+ */
+export const renameWikiBranch = (url: string, from: string, to: string, token?: string): boolean => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-wiki-'));
+  try {
+    git(['clone', '--quiet', '--bare', url, dir], token, undefined, slow);
+    git(['push', '--quiet', 'origin', `refs/heads/${from}:refs/heads/${to}`], token, dir, slow);
+
+    try {
+      git(['push', '--quiet', 'origin', `:refs/heads/${from}`], token, dir, slow);
+    } catch (err) {
+      return false;
+    }
+    return true;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,59 @@
+import { listWikiBranches, renameWikiBranch } from './wiki';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('The wiki helpers', () => {
+  let dir: string;
+  let wiki: string;
+
+  const git = (cwd: string, ...args: string[]): string =>
+    execFileSync('git', args, {
+      cwd,
+      encoding: 'utf8',
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Test',
+        GIT_AUTHOR_EMAIL: 'test@example.com',
+        GIT_COMMITTER_NAME: 'Test',
+        GIT_COMMITTER_EMAIL: 'test@example.com',
+      },
+    }).trim();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'm2m-wiki-test-'));
+    wiki = path.join(dir, 'test.wiki.git');
+    const work = path.join(dir, 'work');
+
+    git(dir, 'init', '--quiet', '--bare', wiki);
+    git(dir, 'clone', '--quiet', wiki, work);
+    git(work, 'checkout', '--quiet', '-b', 'master');
+    git(work, 'commit', '--quiet', '--allow-empty', '-m', 'Home');
+    git(work, 'push', '--quiet', 'origin', 'master');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('list the branches of the wiki', () => {
+    expect(listWikiBranches(wiki)).toEqual(['master']);
+  });
+
+  test('return undefined for a wiki that does not exist', () => {
+    expect(listWikiBranches(path.join(dir, 'missing.wiki.git'))).toBeUndefined();
+  });
+
+  test('rename the branch of the wiki', () => {
+    git(wiki, 'symbolic-ref', 'HEAD', 'refs/heads/main');
+
+    expect(renameWikiBranch(wiki, 'master', 'main')).toBe(true);
+    expect(listWikiBranches(wiki)).toEqual(['main']);
+  });
+
+  test('keep the old branch if the server refuses to delete the branch it serves', () => {
+    expect(renameWikiBranch(wiki, 'master', 'main')).toBe(false);
+    expect(listWikiBranches(wiki)).toEqual(['main', 'master']);
+  });
+});
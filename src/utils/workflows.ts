@@ -0,0 +1,157 @@
+import { isMap, isScalar, isSeq, parseDocument, Scalar } from 'yaml';
+import { escapeRegExp } from './search';
+
+export type WorkflowReferenceKind = 'branches' | 'condition' | 'checkout' | 'ref';
+
+/* A value in a workflow that refers to the old branch, along with the text that replaces it */
+
+export interface WorkflowReference {
+  kind: WorkflowReferenceKind;
+  // The YAML path of the value, such as `on.push.branches[0]` or `jobs.build.steps[1].with.ref`
+  path: string;
+  line: number;
+  text: string;
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+export interface Workflow {
+  path: string;
+  content: string;
+  references: WorkflowReference[];
+}
+
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce(
+    (formatted: string, key) =>
+      typeof key === 'number' ? `${formatted}[${key}]` : formatted ? `${formatted}.${key}` : key,
+    ''
+  );
+
+/*
+ * Find the values in a workflow that refer to the old branch:
+ *
+ * - `branches` and `branches-ignore` filters of each trigger
+ * - Expressions comparing `github.ref` with `refs/heads/<from>`, or `github.ref_name`, `github.base_ref` and
+ *   `github.head_ref` with the branch name
+ * - The `ref` input of `actions/checkout` steps
+ */
+export const findWorkflowReferences = (content: string, from: string, to: string): WorkflowReference[] => {
+  const doc = parseDocument(content);
+  if (doc.errors.length) throw new Error(doc.errors[0].message);
+
+  const references: WorkflowReference[] = [];
+
+  const add = (
+    kind: WorkflowReferenceKind,
+    path: (string | number)[],
+    node: Scalar,
+    replace: (text: string) => string
+  ): void => {
+    if (!node.range || references.some((reference) => reference.start === node.range?.[0])) return;
+
+    const [start, end] = node.range;
+    const text = content.slice(start, end);
+    references.push({
+      kind,
+      path: formatPath(path),
+      line: content.slice(0, start).split('\n').length,
+      text,
+      start,
+      end,
+      replacement: replace(text),
+    });
+  };
+  const replaceValue = (text: string): string => text.replace(from, to);
+
+  // Branch filters, which can be a single branch or a list
+  const on = doc.get('on', true);
+  if (isMap(on)) {
+    for (const trigger of on.items) {
+      if (!isScalar(trigger.key) || !isMap(trigger.value)) continue;
+      const event = String(trigger.key.value);
+
+      for (const key of ['branches', 'branches-ignore']) {
+        const filter = trigger.value.get(key, true);
+        const items = isSeq(filter) ? filter.items : [filter];
+        items.forEach((item, index) => {
+          if (isScalar(item) && item.value === from) {
+            const path = ['on', event, key, ...(isSeq(filter) ? [index] : [])];
+            add('branches', path, item, replaceValue);
+          }
+        });
+      }
+    }
+  }
+
+  // Checkout steps
+  const jobs = doc.get('jobs', true);
+  if (isMap(jobs)) {
+    for (const job of jobs.items) {
+      const steps = isMap(job.value) ? job.value.get('steps', true) : undefined;
+      if (!isScalar(job.key) || !isSeq(steps)) continue;
+      const id = String(job.key.value);
+
+      steps.items.forEach((step, index) => {
+        if (!isMap(step) || !/^actions\/checkout@/.test(String(step.get('uses')))) return;
+
+        const ref = step.getIn(['with', 'ref'], true);
+        if (isScalar(ref) && (ref.value === from || ref.value === `refs/heads/${from}`)) {
+          add('checkout', ['jobs', id, 'steps', index, 'with', 'ref'], ref, replaceValue);
+        }
+      });
+    }
+  }
+
+  // Expressions, usually in `if` conditions
+  const ref = new RegExp(`refs/heads/${escapeRegExp(from)}(?![\\w./-])`, 'g');
+  const name = new RegExp(`(github\\.(?:ref_name|base_ref|head_ref)\\s*[!=]=\\s*)(['"])${escapeRegExp(from)}\\2`, 'g');
+  const replaceExpression = (text: string): string =>
+    text.replace(ref, `refs/heads/${to}`).replace(name, `$1$2${to}$2`);
+
+  const visit = (node: unknown, path: (string | number)[]): void => {
+    if (isMap(node)) {
+      node.items.forEach((pair) => visit(pair.value, [...path, isScalar(pair.key) ? String(pair.key.value) : '?']));
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => visit(item, [...path, index]));
+    } else if (isScalar(node) && typeof node.value === 'string') {
+      ref.lastIndex = 0;
+      name.lastIndex = 0;
+      if (ref.test(node.value) || name.test(node.value)) {
+        add(path[path.length - 1] === 'if' ? 'condition' : 'ref', path, node, replaceExpression);
+      }
+    }
+  };
+  visit(doc.contents, []);
+
+  return references.sort((a, b) => a.start - b.start);
+};
+
+/* Replace each reference in the workflow, keeping the rest of the file as it is */
+
+export const fixWorkflowReferences = (content: string, references: WorkflowReference[]): string =>
+  [...references]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (updated, reference) => updated.slice(0, reference.start) + reference.replacement + updated.slice(reference.end),
+      content
+    );
+
+/* A markdown checklist of the references, linking to the line of each one */
+
+export const formatWorkflowReferences = (workflows: Workflow[], blobUrl: string): string =>
+  workflows
+    .reduce(
+      (lines: string[], workflow) =>
+        lines.concat(
+          workflow.references.map(
+            (reference) =>
+              `- [ ] [${workflow.path}#L${reference.line}](${blobUrl}/${workflow.path}#L${reference.line}) \`${
+                reference.path
+              }\`: \`${reference.text.replace(/`/g, "'")}\``
+          )
+        ),
+      []
+    )
+    .join('\n');
@@ -0,0 +1,81 @@
+import { findWorkflowReferences, fixWorkflowReferences, formatWorkflowReferences } from './workflows';
+
+describe('The workflow helpers', () => {
+  const content = `name: CI
+on:
+  push:
+    branches: [ master, 'release/*' ]
+  pull_request:
+    branches-ignore:
+      - "master"
+  schedule:
+    - cron: '0 0 * * *'
+
+jobs:
+  deploy:
+    # Only deploy master
+    if: github.ref == 'refs/heads/master' && github.event_name == 'push'
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+        with:
+          ref: master
+      - run: echo "refs/heads/master-to-main is a different branch"
+      - if: github.ref_name != 'master'
+        run: exit 1
+`;
+
+  test('find the references to the old branch with their YAML paths', () => {
+    expect(
+      findWorkflowReferences(content, 'master', 'main').map(({ kind, path, line, text }) => ({
+        kind,
+        path,
+        line,
+        text,
+      }))
+    ).toEqual([
+      { kind: 'branches', path: 'on.push.branches[0]', line: 4, text: 'master' },
+      { kind: 'branches', path: 'on.pull_request.branches-ignore[0]', line: 7, text: '"master"' },
+      {
+        kind: 'condition',
+        path: 'jobs.deploy.if',
+        line: 14,
+        text: "github.ref == 'refs/heads/master' && github.event_name == 'push'",
+      },
+      { kind: 'checkout', path: 'jobs.deploy.steps[0].with.ref', line: 19, text: 'master' },
+      { kind: 'condition', path: 'jobs.deploy.steps[2].if', line: 21, text: "github.ref_name != 'master'" },
+    ]);
+  });
+
+  test('find single branch filters', () => {
+    expect(
+      findWorkflowReferences('on:\n  push:\n    branches: master\n', 'master', 'main').map(({ path }) => path)
+    ).toEqual(['on.push.branches']);
+  });
+
+  test('fix the references, leaving the rest of the workflow as it is', () => {
+    const fixed = fixWorkflowReferences(content, findWorkflowReferences(content, 'master', 'main'));
+
+    expect(fixed).toBe(
+      content
+        .replace('[ master,', '[ main,')
+        .replace('- "master"', '- "main"')
+        .replace("'refs/heads/master' &&", "'refs/heads/main' &&")
+        .replace('ref: master', 'ref: main')
+        .replace("!= 'master'", "!= 'main'")
+    );
+  });
+
+  test('list the references with links to their lines', () => {
+    const path = '.github/workflows/ci.yml';
+    const references = findWorkflowReferences(content, 'master', 'main').slice(0, 2);
+
+    expect(formatWorkflowReferences([{ path, content, references }], 'https://github.com/guardian/test/blob/main'))
+      .toBe(`- [ ] [${path}#L4](https://github.com/guardian/test/blob/main/${path}#L4) \`on.push.branches[0]\`: \`master\`
+- [ ] [${path}#L7](https://github.com/guardian/test/blob/main/${path}#L7) \`on.pull_request.branches-ignore[0]\`: \`"master"\``);
+  });
+
+  test('throw an error for invalid YAML', () => {
+    expect(() => findWorkflowReferences('on: [push\n', 'master', 'main')).toThrow();
+  });
+});